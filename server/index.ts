@@ -0,0 +1,43 @@
+import http from 'http';
+import path from 'path';
+import { appConfig } from '../src/config';
+import { parseScheduleConfig } from '../src/tournament/schedule';
+import { createRequestHandler } from './routes';
+import { SettlementStore, loadKeypair } from './settlements';
+import { JsonFileStore } from './store';
+
+// Local tournament service: `npm run server`
+const PORT = Number(process.env.PORT || 4000);
+const DATA_FILE = process.env.DATA_FILE || path.join(__dirname, 'data', 'tournaments.json');
+const SETTLEMENT_DIR = process.env.SETTLEMENT_DIR || path.join(__dirname, 'data', 'settlements');
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '*';
+// Optional: with the pool wallet's keypair, claimed prizes are paid out immediately
+const POOL_KEYPAIR = process.env.POOL_KEYPAIR;
+
+// Daily UTC tournaments unless configured otherwise, e.g. TOURNAMENT_DURATION_MINUTES=10 to test rollovers
+const schedule = parseScheduleConfig({
+  name: process.env.TOURNAMENT_NAME,
+  genesis: process.env.TOURNAMENT_GENESIS,
+  durationMinutes: process.env.TOURNAMENT_DURATION_MINUTES,
+  settlementMinutes: process.env.TOURNAMENT_SETTLEMENT_MINUTES
+});
+
+const poolKeypair = POOL_KEYPAIR ? loadKeypair(POOL_KEYPAIR) : null;
+if (poolKeypair && !poolKeypair.publicKey.equals(appConfig.poolWallet)) {
+  throw new Error(`POOL_KEYPAIR is ${poolKeypair.publicKey.toBase58()}, not the pool wallet ${appConfig.poolWallet.toBase58()}`);
+}
+
+// Cluster, mint and entry rules come from the same REACT_APP_* settings as the app
+const store = new JsonFileStore(DATA_FILE);
+const server = http.createServer(createRequestHandler({
+  store,
+  settlements: new SettlementStore(SETTLEMENT_DIR),
+  schedule,
+  config: appConfig,
+  poolKeypair,
+  allowedOrigin: ALLOWED_ORIGIN
+}));
+
+server.listen(PORT, () => {
+  console.log(`Tournament service listening on http://localhost:${PORT} (${appConfig.cluster}, data: ${DATA_FILE})`);
+});
@@ -0,0 +1,76 @@
+import { Worker, isMainThread, parentPort } from 'worker_threads';
+import { ReplayResult, RunResult, verifyRun } from '../src/game/replay';
+
+// Replays submitted runs on a worker thread. A long run takes a noticeable time to
+// re-simulate, and on the request thread that would hold up every other request
+// and live update meanwhile. This file is both the worker and its handle.
+
+interface ReplayRequest {
+  id: number;
+  run: RunResult;
+  seed: number;
+}
+
+interface ReplayResponse {
+  id: number;
+  result?: ReplayResult;
+  error?: string; // A log so malformed that replaying it threw
+}
+
+export class ReplayWorker {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (result: ReplayResult) => void; reject: (error: Error) => void }>();
+
+  // Same as verifyRun, off the request thread. Replays run one after another.
+  verifyRun(run: RunResult, seed: number): Promise<ReplayResult> {
+    const worker = this.start();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.ref();
+      worker.postMessage({ id, run, seed } as ReplayRequest);
+    });
+  }
+
+  // The worker is started on first use and again after it dies. When the service runs
+  // from source under tsx, the worker needs tsx to load this file too.
+  private start() {
+    if (this.worker) return this.worker;
+
+    const worker = __filename.endsWith('.ts')
+      ? new Worker(`require('tsx/cjs'); require(${JSON.stringify(__filename)});`, { eval: true })
+      : new Worker(__filename);
+    worker.on('message', ({ id, result, error }: ReplayResponse) => {
+      const request = this.pending.get(id);
+      this.pending.delete(id);
+      if (result) request?.resolve(result);
+      else request?.reject(new Error(error));
+      if (this.pending.size === 0) worker.unref();
+    });
+    const fail = (error: Error) => {
+      if (this.worker !== worker) return;
+      this.worker = null;
+      this.pending.forEach(({ reject }) => reject(error));
+      this.pending.clear();
+    };
+    worker.on('error', fail);
+    worker.on('exit', code => fail(new Error(`Replay worker stopped with exit code ${code}`)));
+    // Only keep the process alive while replays are waiting, not for an idle worker
+    worker.unref();
+
+    this.worker = worker;
+    return worker;
+  }
+}
+
+if (!isMainThread && parentPort) {
+  const port = parentPort;
+  port.on('message', ({ id, run, seed }: ReplayRequest) => {
+    try {
+      port.postMessage({ id, result: verifyRun(run, seed) } as ReplayResponse);
+    } catch (error) {
+      port.postMessage({ id, error: error instanceof Error ? error.message : String(error) } as ReplayResponse);
+    }
+  });
+}
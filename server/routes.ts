@@ -0,0 +1,335 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { MAX_REPLAY_FRAMES, countReplayFrames } from '../src/game/replay';
+import { paginateLeaderboard, rankScores } from '../src/tournament/leaderboard';
+import { ClaimVerifier } from '../src/tournament/scoreClaim';
+import { AppConfig } from '../src/config';
+import { EntryVerifier } from '../src/tournament/entryVerification';
+import { PrizeInfo, SignedPrizeClaim, verifyPrizeClaimSignature } from '../src/tournament/prizeClaim';
+import { Payout, SettlementReport } from '../src/tournament/settlement';
+import { ScheduleConfig, getCurrentWindow, getTournamentPhase } from '../src/tournament/schedule';
+import { getTournamentSeed } from '../src/tournament/tournament';
+import {
+  JoinRequest,
+  ScoreSubmission,
+  ScoreSubmissionResult,
+  TournamentInfo
+} from '../src/tournament/types';
+import { ReplayWorker } from './replayWorker';
+import { SettlementStore, sendPayout } from './settlements';
+import { JsonFileStore, TournamentRecord } from './store';
+
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+const HEARTBEAT_MS = 25 * 1000;
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = (req: IncomingMessage) => new Promise<any>((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body is too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+    } catch (error) {
+      reject(new HttpError(400, 'Request body must be JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const toInfo = (tournament: TournamentRecord, now = Date.now()): TournamentInfo => {
+  const [leader] = rankScores(tournament.scores);
+  return {
+    id: tournament.id,
+    epoch: tournament.epoch,
+    seed: tournament.seed,
+    startsAt: tournament.startsAt,
+    endsAt: tournament.endsAt,
+    settlesAt: tournament.settlesAt,
+    phase: getTournamentPhase(tournament, now),
+    serverTime: now,
+    players: tournament.players.length,
+    prizePool: tournament.prizePool,
+    highestScore: leader ? leader.score : 0,
+    leader: leader ? leader.player : null
+  };
+};
+
+const toPrizeInfo = (report: SettlementReport, payout: Payout): PrizeInfo => {
+  const status = report.status.payouts[payout.player];
+  return {
+    tournamentId: report.tournamentId,
+    player: payout.player,
+    amount: payout.amount,
+    decimals: report.decimals,
+    places: payout.places,
+    reportHash: report.hash,
+    state: status.state,
+    transaction: status.transaction
+  };
+};
+
+export interface RequestHandlerOptions {
+  store: JsonFileStore;
+  settlements: SettlementStore;
+  schedule: ScheduleConfig;
+  config: AppConfig;
+  poolKeypair: Keypair | null; // Pays claimed prizes right away when set
+  allowedOrigin?: string;
+}
+
+export const createRequestHandler = ({
+  store,
+  settlements,
+  schedule,
+  config,
+  poolKeypair,
+  allowedOrigin = '*'
+}: RequestHandlerOptions) => {
+  const verifier = new ClaimVerifier();
+  const replays = new ReplayWorker();
+  store.listTournaments().forEach(tournament => {
+    tournament.scores.forEach(score => verifier.remember(score.replayHash));
+  });
+
+  // Entry transfers are looked up on the configured cluster
+  const connection = new Connection(config.rpcEndpoint, 'confirmed');
+  const entryVerifier = new EntryVerifier(connection, config);
+
+  // Open server-sent event streams per tournament, told about every join and accepted score
+  const subscribers = new Map<string, Set<ServerResponse>>();
+
+  const publish = (tournament: TournamentRecord) => {
+    const data = `event: update\ndata: ${JSON.stringify(toInfo(tournament))}\n\n`;
+    subscribers.get(tournament.id)?.forEach(res => res.write(data));
+  };
+
+  const subscribe = (tournament: TournamentRecord, req: IncomingMessage, res: ServerResponse) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive'
+    });
+    res.write(`event: update\ndata: ${JSON.stringify(toInfo(tournament))}\n\n`);
+
+    const streams = subscribers.get(tournament.id) || new Set<ServerResponse>();
+    streams.add(res);
+    subscribers.set(tournament.id, streams);
+
+    // Comments keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      streams.delete(res);
+    });
+  };
+
+  // The tournament for the epoch that is open right now, created on first use
+  const getCurrentTournament = (now = Date.now()) => {
+    const window = getCurrentWindow(schedule, now);
+    let tournament = store.getTournament(window.id);
+
+    if (!tournament) {
+      tournament = {
+        ...window,
+        seed: getTournamentSeed(window.id),
+        players: [],
+        entries: [],
+        prizePool: 0,
+        scores: []
+      };
+      store.saveTournament(tournament);
+    }
+
+    return tournament;
+  };
+
+  const getTournament = (id: string) => {
+    const tournament = id === 'current' ? getCurrentTournament() : store.getTournament(id);
+    if (!tournament) throw new HttpError(404, `Unknown tournament ${id}`);
+    return tournament;
+  };
+
+  const join = async (tournament: TournamentRecord, body: JoinRequest) => {
+    if (typeof body.signature !== 'string' || !body.signature) throw new HttpError(400, 'signature is required');
+    let player: PublicKey;
+    try {
+      player = new PublicKey(body.player);
+    } catch (error) {
+      throw new HttpError(400, 'player must be a wallet address');
+    }
+    if (getTournamentPhase(tournament, Date.now()) !== 'open') throw new HttpError(409, 'Tournament is not open');
+
+    // Players are only admitted once their entry transfer is found on-chain
+    const entry = await entryVerifier.verifyEntry(tournament, player, body.signature);
+    if (!entry) {
+      throw new HttpError(402, `No confirmed entry of at least ${config.minimumEntry} USDC found in that transaction`);
+    }
+
+    if (!tournament.entries.some(existing => existing.signature === entry.signature)) {
+      tournament.entries.push(entry);
+      tournament.prizePool += entry.amount;
+      if (!tournament.players.includes(entry.player)) {
+        tournament.players.push(entry.player);
+      }
+      store.saveTournament(tournament);
+      publish(tournament);
+    }
+
+    return toInfo(tournament);
+  };
+
+  const submitScore = async (tournament: TournamentRecord, body: ScoreSubmission): Promise<ScoreSubmissionResult> => {
+    const { signed, log } = body;
+    if (!signed || !signed.claim || !log) throw new HttpError(400, 'A signed claim and its input log are required');
+
+    // Scoring locks the moment the tournament closes
+    const now = Date.now();
+    if (getTournamentPhase(tournament, now) !== 'open') throw new HttpError(409, 'Tournament is not open');
+    if (!tournament.players.includes(signed.claim.player)) {
+      throw new HttpError(403, 'Join the tournament before submitting scores');
+    }
+
+    // Re-simulate the run on this tournament's course, then check the signed claim against it.
+    // A log too long to be a valid run is turned away without replaying any of it.
+    if (!(countReplayFrames(log) <= MAX_REPLAY_FRAMES)) throw new HttpError(422, 'Input log is malformed or too long');
+    let replay;
+    try {
+      replay = await replays.verifyRun({ score: signed.claim.score, log }, tournament.seed);
+    } catch (error) {
+      throw new HttpError(422, 'Input log could not be replayed');
+    }
+    const verification = verifier.verify(signed, { tournamentId: tournament.id, log, replay, now });
+    if (!verification.valid) throw new HttpError(422, verification.reason || 'Score claim rejected');
+
+    tournament.scores.push({
+      player: signed.claim.player,
+      score: signed.claim.score,
+      durationMs: signed.claim.durationMs,
+      replayHash: signed.claim.replayHash,
+      signature: signed.signature,
+      submittedAt: now
+    });
+    store.saveTournament(tournament);
+    publish(tournament);
+
+    const entry = rankScores(tournament.scores).find(ranked => ranked.player === signed.claim.player)!;
+    return { accepted: true, rank: entry.rank, bestScore: entry.score };
+  };
+
+  // Every prize the player won in a settled tournament
+  const listPrizes = (player: string) => settlements.list().flatMap(report =>
+    report.payouts.filter(payout => payout.player === player).map(payout => toPrizeInfo(report, payout))
+  );
+
+  // A winner claims their prize with a signed message. Each prize can be claimed once.
+  const claimPrize = async (tournament: TournamentRecord, body: SignedPrizeClaim): Promise<PrizeInfo> => {
+    if (!body || !body.claim || !body.signature) throw new HttpError(400, 'A signed prize claim is required');
+    const { claim } = body;
+
+    const report = settlements.get(tournament.id);
+    if (!report) throw new HttpError(409, 'Tournament has not been settled yet');
+    const payout = report.payouts.find(candidate => candidate.player === claim.player);
+    if (!payout) throw new HttpError(403, 'No prize for this player');
+    if (claim.tournamentId !== report.tournamentId || claim.amount !== payout.amount || claim.reportHash !== report.hash) {
+      throw new HttpError(422, 'Claim does not match the settlement');
+    }
+    if (!verifyPrizeClaimSignature(body)) throw new HttpError(401, 'Invalid signature');
+
+    // Only the first claim moves the prize on, against the latest stored report
+    const claimed = await settlements.advancePayout(report.tournamentId, payout.player, ['unclaimed'], 'claimed', {
+      claimedAt: Date.now(),
+      claimSignature: body.signature
+    });
+    if (!claimed) throw new HttpError(409, 'Prize has already been claimed');
+
+    // Without the pool keypair the claim waits for the operator's `npm run settle -- --execute`
+    if (poolKeypair) {
+      sendPayout(connection, poolKeypair, settlements, claimed, payout).catch(error => {
+        console.error(`Prize payout to ${payout.player} failed:`, error);
+      });
+    }
+
+    return toPrizeInfo(claimed, payout);
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    const prizesMatch = url.pathname.match(/^\/players\/([^/]+)\/prizes$/);
+    if (prizesMatch && req.method === 'GET') {
+      return sendJson(res, 200, listPrizes(decodeURIComponent(prizesMatch[1])));
+    }
+
+    const match = url.pathname.match(/^\/tournaments\/([^/]+)(?:\/(join|scores|leaderboard|events|prize))?$/);
+    if (!match) throw new HttpError(404, 'Not found');
+
+    const [, id, action] = match;
+    const tournament = getTournament(decodeURIComponent(id));
+
+    if (req.method === 'GET' && !action) {
+      return sendJson(res, 200, toInfo(tournament));
+    }
+    if (req.method === 'GET' && action === 'leaderboard') {
+      return sendJson(res, 200, paginateLeaderboard(rankScores(tournament.scores), {
+        limit: Number(url.searchParams.get('limit')) || undefined,
+        offset: Number(url.searchParams.get('offset')) || undefined,
+        player: url.searchParams.get('player')
+      }));
+    }
+    if (req.method === 'GET' && action === 'events') {
+      return subscribe(tournament, req, res);
+    }
+    if (req.method === 'POST' && action === 'join') {
+      return sendJson(res, 200, await join(tournament, await readJson(req)));
+    }
+    if (req.method === 'POST' && action === 'scores') {
+      return sendJson(res, 200, await submitScore(tournament, await readJson(req)));
+    }
+    if (req.method === 'POST' && action === 'prize') {
+      return sendJson(res, 200, await claimPrize(tournament, await readJson(req)));
+    }
+
+    throw new HttpError(405, 'Method not allowed');
+  };
+
+  return (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    route(req, res).catch(error => {
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+      } else {
+        console.error('Unhandled error:', error);
+        sendJson(res, 500, { error: 'Internal server error' });
+      }
+    });
+  };
+};
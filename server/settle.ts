@@ -0,0 +1,120 @@
+import path from 'path';
+import { getMint } from '@solana/spl-token';
+import { Connection } from '@solana/web3.js';
+import { appConfig } from '../src/config';
+import { toBaseUnits } from '../src/tournament/entryPayment';
+import { rankScores } from '../src/tournament/leaderboard';
+import { getTournamentPhase } from '../src/tournament/schedule';
+import { computeSettlement, formatSettlementReport, needsBuybackTransfer } from '../src/tournament/settlement';
+import { SettlementStore, checkTransfer, loadKeypair, sendBuyback, sendPayout } from './settlements';
+import { JsonFileStore } from './store';
+
+// Settle a closed tournament: `npm run settle -- <tournament id> [--execute]`
+//
+// The first run writes the settlement report, which is final from then on and
+// lets winners claim their prizes in the app. With --execute, the buyback share
+// and every prize not paid yet are sent from the pool wallet, whose keypair is
+// read from POOL_KEYPAIR (a solana-keygen JSON file).
+
+const DATA_FILE = process.env.DATA_FILE || path.join(__dirname, 'data', 'tournaments.json');
+const SETTLEMENT_DIR = process.env.SETTLEMENT_DIR || path.join(__dirname, 'data', 'settlements');
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+// A transfer recorded as sending may already have gone out, so it is looked up
+// on-chain and never sent again from here
+const resolveSending = async (
+  connection: Connection,
+  label: string,
+  signature: string | null,
+  markPaid: () => Promise<unknown>
+) => {
+  const outcome = signature ? await checkTransfer(connection, signature) : 'unknown';
+  if (outcome === 'landed') {
+    await markPaid();
+    console.log(`${label} landed: ${signature}`);
+    return;
+  }
+  const problem = outcome === 'failed' ? 'failed on-chain' : 'is not on-chain (yet)';
+  console.warn(`Skipping ${label}: transfer ${signature ?? '(unrecorded)'} ${problem}, check the pool wallet history`);
+};
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const tournamentId = args.find(arg => !arg.startsWith('--')) ?? fail('Usage: npm run settle -- <tournament id> [--execute]');
+  const execute = args.includes('--execute');
+
+  const tournament = new JsonFileStore(DATA_FILE).getTournament(tournamentId) ?? fail(`Unknown tournament ${tournamentId}`);
+  const phase = getTournamentPhase(tournament, Date.now());
+  if (phase !== 'closed') fail(`${tournamentId} is ${phase}; it can be settled once results are final`);
+
+  const settlements = new SettlementStore(SETTLEMENT_DIR);
+  const connection = new Connection(appConfig.rpcEndpoint, 'confirmed');
+
+  let report = settlements.get(tournamentId);
+  if (!report) {
+    const { decimals } = await getMint(connection, appConfig.usdcMint);
+    const totalEntries = tournament.entries.reduce((sum, entry) => sum + toBaseUnits(entry.amount, decimals), BigInt(0));
+    report = await settlements.create(computeSettlement({
+      tournamentId,
+      totalEntries,
+      decimals,
+      standings: rankScores(tournament.scores),
+      config: appConfig
+    }));
+  }
+
+  console.log(formatSettlementReport(report));
+  console.log(`Report: ${path.join(SETTLEMENT_DIR, `${tournamentId}.json`)}`);
+
+  if (!execute) return;
+
+  const poolKeypairPath = process.env.POOL_KEYPAIR ?? fail('Set POOL_KEYPAIR to the pool wallet keypair to execute payouts');
+  const poolKeypair = loadKeypair(poolKeypairPath);
+  if (poolKeypair.publicKey.toBase58() !== report.poolWallet) {
+    fail(`POOL_KEYPAIR is ${poolKeypair.publicKey.toBase58()}, not the pool wallet ${report.poolWallet}`);
+  }
+
+  // Another run may have sent the buyback since the report was read
+  const latest = settlements.get(tournamentId)!;
+  const { buyback } = latest.status;
+  if (needsBuybackTransfer(latest) && buyback.state === 'sending') {
+    await resolveSending(connection, 'buyback share', buyback.transaction, () =>
+      settlements.advanceBuyback(tournamentId, ['sending'], 'paid'));
+  } else if (needsBuybackTransfer(latest)) {
+    const signature = await sendBuyback(connection, poolKeypair, settlements, report);
+    if (signature) {
+      console.log(`Sent buyback share: ${signature}`);
+    } else {
+      console.warn('Skipping buyback share: another run is already sending it');
+    }
+  }
+
+  for (const payout of report.payouts) {
+    // The service may have paid or started paying this prize since the report was read
+    const { state, transaction } = settlements.get(tournamentId)!.status.payouts[payout.player];
+    if (state === 'paid' || BigInt(payout.amount) === BigInt(0)) continue;
+    if (state === 'sending') {
+      await resolveSending(connection, payout.player, transaction, () =>
+        settlements.advancePayout(tournamentId, payout.player, ['sending'], 'paid'));
+      continue;
+    }
+
+    const signature = await sendPayout(connection, poolKeypair, settlements, report, payout);
+    if (signature) {
+      console.log(`Paid ${payout.player}: ${signature}`);
+    } else {
+      console.warn(`Skipping ${payout.player}: the service is already paying this prize`);
+    }
+  }
+
+  console.log(`${tournamentId} is settled`);
+};
+
+main().catch(error => {
+  console.error('Settlement failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,209 @@
+import fs from 'fs';
+import path from 'path';
+import bs58 from 'bs58';
+import { Connection, Keypair } from '@solana/web3.js';
+import {
+  BuybackState,
+  Payout,
+  PayoutState,
+  PayoutStatus,
+  SettlementReport,
+  buildPayoutTransaction,
+  canAdvanceBuyback,
+  canAdvancePayout
+} from '../src/tournament/settlement';
+
+// Settlement reports, one JSON file per tournament. Read fresh on every access
+// because both the service and `npm run settle` update them.
+
+const LOCK_RETRY_MS = 50;
+const STALE_LOCK_MS = 30 * 1000; // A lock this old was left behind by a crashed process
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class SettlementStore {
+  // Pending changes per report in this process, so they apply one after another
+  private queues = new Map<string, Promise<unknown>>();
+
+  constructor(private dir: string) {}
+
+  private reportPath(tournamentId: string) {
+    return path.join(this.dir, `${tournamentId}.json`);
+  }
+
+  get(tournamentId: string): SettlementReport | null {
+    const reportPath = this.reportPath(tournamentId);
+    return fs.existsSync(reportPath) ? JSON.parse(fs.readFileSync(reportPath, 'utf8')) : null;
+  }
+
+  list(): SettlementReport[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf8')));
+  }
+
+  // Store a new report, or return the one that was stored first
+  create(report: SettlementReport) {
+    return this.withReport(report.tournamentId, () => {
+      const existing = this.get(report.tournamentId);
+      if (existing) return existing;
+      this.write(report);
+      return report;
+    });
+  }
+
+  // Move a prize's payout from one of the expected states to a later one. Returns
+  // the updated report, or null when someone else moved the payout first.
+  advancePayout(
+    tournamentId: string,
+    player: string,
+    expected: PayoutState[],
+    to: PayoutState,
+    details: Partial<Omit<PayoutStatus, 'state'>> = {}
+  ) {
+    return this.withReport(tournamentId, () => {
+      const report = this.get(tournamentId);
+      const status = report?.status.payouts[player];
+      if (!report || !status) throw new Error(`No prize for ${player} in ${tournamentId}`);
+      if (!expected.includes(status.state) || !canAdvancePayout(status.state, to)) return null;
+
+      Object.assign(status, details, { state: to });
+      this.write(report);
+      return report;
+    });
+  }
+
+  // Move the buyback transfer on, the same way as a payout
+  advanceBuyback(tournamentId: string, expected: BuybackState[], to: BuybackState, transaction?: string) {
+    return this.withReport(tournamentId, () => {
+      const report = this.get(tournamentId);
+      if (!report) throw new Error(`No settlement report for ${tournamentId}`);
+      const status = report.status.buyback;
+      if (!expected.includes(status.state) || !canAdvanceBuyback(status.state, to)) return null;
+
+      Object.assign(status, transaction ? { transaction } : {}, { state: to });
+      this.write(report);
+      return report;
+    });
+  }
+
+  // Run one read-modify-write at a time per report: queued within this process,
+  // and behind a lock file so `npm run settle` and the service never interleave
+  private withReport<T>(tournamentId: string, task: () => T): Promise<T> {
+    const previous = this.queues.get(tournamentId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(async () => {
+      const release = await this.lock(tournamentId);
+      try {
+        return task();
+      } finally {
+        release();
+      }
+    });
+
+    this.queues.set(tournamentId, next);
+    next.catch(() => undefined).then(() => {
+      if (this.queues.get(tournamentId) === next) this.queues.delete(tournamentId);
+    });
+    return next;
+  }
+
+  private async lock(tournamentId: string) {
+    const lockPath = `${this.reportPath(tournamentId)}.lock`;
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    for (;;) {
+      try {
+        fs.closeSync(fs.openSync(lockPath, 'wx'));
+        return () => fs.rmSync(lockPath, { force: true });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > STALE_LOCK_MS) fs.rmSync(lockPath, { force: true });
+      } catch (error) {
+        // Released while we looked, just try again
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  // Temp file and rename, as in JsonFileStore
+  private write(report: SettlementReport) {
+    const reportPath = this.reportPath(report.tournamentId);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(`${reportPath}.tmp`, JSON.stringify(report, null, 2));
+    fs.renameSync(`${reportPath}.tmp`, reportPath);
+  }
+}
+
+export const loadKeypair = (keypairPath: string) =>
+  Keypair.fromSecretKey(Uint8Array.from(JSON.parse(fs.readFileSync(keypairPath, 'utf8'))));
+
+// Send a transfer from the pool wallet. It is signed and simulated first, so a
+// transfer that would be rejected is never marked as sending and can be retried.
+// `markSending` then records its signature as a compare-and-set on the stored
+// report before it goes out: whoever gets there first sends it, and a re-run
+// finds the signature to look up on-chain instead of sending again. Returns
+// null when someone else is already sending or has sent it.
+const sendTransfer = async (
+  connection: Connection,
+  poolKeypair: Keypair,
+  report: SettlementReport,
+  recipient: string,
+  amount: string,
+  markSending: (signature: string) => Promise<SettlementReport | null>,
+  markPaid: () => Promise<unknown>
+) => {
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  const transaction = buildPayoutTransaction(report, recipient, amount);
+  transaction.recentBlockhash = blockhash;
+  transaction.sign(poolKeypair);
+  const signature = bs58.encode(transaction.signature!);
+
+  const simulation = await connection.simulateTransaction(transaction);
+  if (simulation.value.err) {
+    throw new Error(`Transfer to ${recipient} would fail: ${JSON.stringify(simulation.value.err)}`);
+  }
+
+  if (!await markSending(signature)) return null;
+
+  await connection.sendRawTransaction(transaction.serialize());
+  const confirmation = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+  if (confirmation.value.err) {
+    throw new Error(`Transfer to ${recipient} failed: ${JSON.stringify(confirmation.value.err)}`);
+  }
+
+  await markPaid();
+  return signature;
+};
+
+// What became of a transfer recorded as sending: 'landed' once it is confirmed,
+// 'failed' if it landed with an error, 'unknown' while the cluster has no record of it
+export const checkTransfer = async (connection: Connection, signature: string) => {
+  const { value } = await connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+  if (!value || !value.confirmationStatus || value.confirmationStatus === 'processed') return 'unknown';
+  return value.err ? 'failed' : 'landed';
+};
+
+// Send one prize
+export const sendPayout = (
+  connection: Connection,
+  poolKeypair: Keypair,
+  store: SettlementStore,
+  report: SettlementReport,
+  payout: Payout
+) => sendTransfer(
+  connection, poolKeypair, report, payout.player, payout.amount,
+  signature => store.advancePayout(report.tournamentId, payout.player, ['unclaimed', 'claimed'], 'sending', { transaction: signature }),
+  () => store.advancePayout(report.tournamentId, payout.player, ['sending'], 'paid')
+);
+
+// Send the buyback share
+export const sendBuyback = (connection: Connection, poolKeypair: Keypair, store: SettlementStore, report: SettlementReport) =>
+  sendTransfer(
+    connection, poolKeypair, report, report.buyback.wallet, report.buyback.amount,
+    signature => store.advanceBuyback(report.tournamentId, ['unsent'], 'sending', signature),
+    () => store.advanceBuyback(report.tournamentId, ['sending'], 'paid')
+  );
@@ -0,0 +1,62 @@
+import fs from 'fs';
+import path from 'path';
+import { EntryProof } from '../src/tournament/entryVerification';
+
+// Everything the service persists, kept in a single JSON file so a dev box needs no database
+
+export interface ScoreRecord {
+  player: string;
+  score: number;
+  durationMs: number;
+  replayHash: string;
+  signature: string;
+  submittedAt: number;
+}
+
+export interface TournamentRecord {
+  id: string;
+  epoch: number;
+  seed: number;
+  startsAt: number;
+  endsAt: number;
+  settlesAt: number;
+  players: string[];
+  entries: EntryProof[];
+  prizePool: number; // Sum of the verified entries
+  scores: ScoreRecord[];
+}
+
+interface StoreData {
+  tournaments: Record<string, TournamentRecord>;
+}
+
+export class JsonFileStore {
+  private data: StoreData = { tournaments: {} };
+
+  constructor(private filePath: string) {
+    if (fs.existsSync(filePath)) {
+      this.data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    }
+  }
+
+  getTournament(id: string): TournamentRecord | undefined {
+    return this.data.tournaments[id];
+  }
+
+  listTournaments() {
+    return Object.values(this.data.tournaments);
+  }
+
+  saveTournament(tournament: TournamentRecord) {
+    this.data.tournaments[tournament.id] = tournament;
+    this.flush();
+  }
+
+  // Write to a temp file and rename so a crash never leaves a half-written store
+  private flush() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.data, null, 2));
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
@@ -1,99 +1,241 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useWallet, useConnection } from '@solana/wallet-adapter-react';
 import { WalletContextProvider } from './context/WalletContext';
 import DoodleJumpGame from './components/DoodleJumpGame';
-import TournamentPanel from './components/TournamentPanel';
-
-// Mock data for testing
-const mockLeaderAddress = "8ZLKSRQrDDyHybaGGqrXUeWzotPg1kLxXb3y5Y38ruUT";
+import TournamentPanel, { EntryIssue } from './components/TournamentPanel';
+import { usePoolBalance } from './hooks/usePoolBalance';
+import { appConfig } from './config';
+import { getTournamentSeed } from './tournament/tournament';
+import { DAILY_SCHEDULE, TournamentPhase, formatCountdown, getCurrentWindow, getTournamentPhase } from './tournament/schedule';
+import { RunResult, verifyRun } from './game/replay';
+import { createScoreClaim, signScoreClaim } from './tournament/scoreClaim';
+import { EntryProof, EntryVerifier, loadEntrySignature, saveEntrySignature } from './tournament/entryVerification';
+import { tournamentClient } from './tournament/client';
+import { TournamentInfo } from './tournament/types';
 
 function Tournament() {
-  const { publicKey, sendTransaction } = useWallet();
+  const { publicKey, signMessage } = useWallet();
   const { connection } = useConnection();
   
   const [currentScore, setCurrentScore] = useState(0);
   const [highScore, setHighScore] = useState(0);
-  const [highestScore, setHighestScore] = useState(3450);
-  const [leaderAddress, setLeaderAddress] = useState(mockLeaderAddress);
-  const [players, setPlayers] = useState(42);
-  const [prizePool, setPrizePool] = useState(146);
-  const [timeRemaining, setTimeRemaining] = useState("23:45:12");
+  // What happened to the last finished run, shown in the panel
+  const [runStatus, setRunStatus] = useState<string | null>(null);
+  const [tournament, setTournament] = useState<TournamentInfo | null>(null);
+  const [tournamentUpdatedAt, setTournamentUpdatedAt] = useState(0);
+  // Difference between the service's clock and ours, so every browser counts down to the same moment
+  const [clockOffset, setClockOffset] = useState(0);
+  const [now, setNow] = useState(Date.now());
+  // The pool wallet's on-chain balance, which also holds earlier tournaments' funds and the buyback share
+  const poolBalance = usePoolBalance();
   
-  // Update the score when the game reports a new score
-  const handleScoreUpdate = (score: number) => {
-    setCurrentScore(score);
-    if (score > highScore) {
-      setHighScore(score);
-      // In a real app, we'd send this to our blockchain or backend
-      if (score > highestScore) {
-        setHighestScore(score);
-        if (publicKey) {
-          setLeaderAddress(publicKey.toString());
-        }
-      }
+  // Everyone in the same tournament plays the same seeded course. Until the
+  // service answers, fall back to the current daily epoch, which it derives the same way.
+  const currentWindow = tournament ?? getCurrentWindow(DAILY_SCHEDULE, now);
+  const tournamentId = currentWindow.id;
+  const seed = tournament ? tournament.seed : getTournamentSeed(tournamentId);
+  const phase = getTournamentPhase(currentWindow, now);
+  // What settlement pays out: this tournament's entries less the buyback share
+  const prizePool = tournament ? tournament.prizePool * appConfig.feeSplit.prizePoolPercent / 100 : null;
+  
+  // Runs only count for the tournament once the player's entry is proven on-chain
+  const entryVerifier = useMemo(() => new EntryVerifier(connection, appConfig), [connection]);
+  const [entry, setEntry] = useState<EntryProof | null>(null);
+  // A paid entry that couldn't be registered yet, which the player can retry joining with
+  const [entryIssue, setEntryIssue] = useState<EntryIssue | null>(null);
+  const { startsAt, endsAt } = currentWindow;
+  
+  const applyTournament = useCallback((info: TournamentInfo) => {
+    setTournament(info);
+    setTournamentUpdatedAt(Date.now());
+    setClockOffset(info.serverTime - Date.now());
+  }, []);
+  
+  const refreshTournament = useCallback(async () => {
+    try {
+      applyTournament(await tournamentClient.getTournament());
+    } catch (error) {
+      console.error('Error loading tournament:', error);
     }
-  };
+  }, [applyTournament]);
   
-  // Handle contribution to the tournament
-  const handleContribute = async (amount: number) => {
-    // In a real app, this would interact with a Solana program
-    console.log(`Contributing ${amount} USDC to the tournament`);
-    
-    // Mock update the prize pool and player count
-    setPrizePool(prev => prev + amount);
-    setPlayers(prev => prev + 1);
-  };
+  useEffect(() => {
+    refreshTournament();
+  }, [refreshTournament]);
   
-  // Update countdown timer
+  // Live standings: the service pushes an update for every join and accepted score
   useEffect(() => {
-    const timer = setInterval(() => {
-      // Mock countdown logic
-      const [hours, minutes, seconds] = timeRemaining.split(':').map(Number);
-      let newSeconds = seconds - 1;
-      let newMinutes = minutes;
-      let newHours = hours;
-      
-      if (newSeconds < 0) {
-        newSeconds = 59;
-        newMinutes -= 1;
-      }
-      
-      if (newMinutes < 0) {
-        newMinutes = 59;
-        newHours -= 1;
-      }
-      
-      if (newHours < 0) {
-        // Reset the tournament
-        setTimeRemaining("24:00:00");
+    return tournamentClient.subscribe(tournamentId, applyTournament);
+  }, [tournamentId, applyTournament]);
+  
+  // Personal bests are per tournament
+  useEffect(() => {
+    setHighScore(0);
+    setRunStatus(null);
+  }, [tournamentId]);
+  
+  // Prove a paid entry on-chain and register it with the service. The player has
+  // already paid by now, so whatever goes wrong is shown with the transaction to retry with.
+  const joinWithEntry = useCallback(async (signature: string) => {
+    if (!publicKey) return;
+    setEntryIssue(null);
+    
+    try {
+      const proof = await entryVerifier.verifyEntry({ id: tournamentId, startsAt, endsAt }, publicKey, signature);
+      if (!proof) {
+        setEntryIssue({ signature, message: `The transaction was not found as an entry for ${tournamentId} yet` });
         return;
       }
-      
-      setTimeRemaining(
-        `${newHours.toString().padStart(2, '0')}:${newMinutes.toString().padStart(2, '0')}:${newSeconds.toString().padStart(2, '0')}`
-      );
-    }, 1000);
+      setEntry(proof);
+      saveEntrySignature(window.localStorage, tournamentId, publicKey, signature);
+      applyTournament(await tournamentClient.join(tournamentId, { player: proof.player, signature }));
+    } catch (error) {
+      console.error('Error joining tournament:', error);
+      setEntryIssue({ signature, message: `Joining failed: ${error instanceof Error ? error.message : 'Unknown error'}` });
+    }
+  }, [entryVerifier, publicKey, tournamentId, startsAt, endsAt, applyTournament]);
+  
+  // Look for an earlier entry whenever the wallet or tournament changes, and register it
+  // with the service too, in case joining failed right after paying
+  useEffect(() => {
+    setEntry(null);
+    setEntryIssue(null);
+    if (!publicKey) return;
     
+    let cancelled = false;
+    const knownSignature = loadEntrySignature(window.localStorage, tournamentId, publicKey);
+    entryVerifier.findEntry({ id: tournamentId, startsAt, endsAt }, publicKey, knownSignature)
+      .then(proof => {
+        if (!cancelled && proof) joinWithEntry(proof.signature);
+      })
+      .catch(error => console.error('Error verifying tournament entry:', error));
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [entryVerifier, publicKey, tournamentId, startsAt, endsAt, joinWithEntry]);
+  
+  // Tick the schedule clock
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now() + clockOffset), 1000);
     return () => clearInterval(timer);
-  }, [timeRemaining]);
+  }, [clockOffset]);
+  
+  // Once the tournament closes, the service has already moved on to the next epoch
+  const hasTournament = tournament !== null;
+  useEffect(() => {
+    if (hasTournament && phase !== 'open') {
+      refreshTournament();
+    }
+  }, [hasTournament, phase, refreshTournament]);
+  
+  // Live score while a run is in progress - not trusted for standings
+  const handleScoreUpdate = (score: number) => {
+    setCurrentScore(score);
+  };
+  
+  // A finished run only counts once replaying its recorded input reproduces the score,
+  // and only reaches the standings as a claim signed by the player's wallet
+  const handleRunComplete = async (run: RunResult, ranked: boolean) => {
+    if (!ranked) {
+      setRunStatus(`Unranked run with score ${run.score}: enter the tournament to compete`);
+      return;
+    }
+    
+    // Scoring locks the moment the tournament closes
+    if (getTournamentPhase(currentWindow, Date.now() + clockOffset) !== 'open') {
+      setRunStatus('The tournament is not open, so this run was not submitted');
+      return;
+    }
+    
+    const result = verifyRun(run, seed);
+    if (!result.valid) {
+      setRunStatus(`Rejected run with score ${run.score}: ${result.reason}`);
+      return;
+    }
+    
+    // Only personal bests are worth submitting. The best only moves once the service accepts one,
+    // so a rejected signature or failed submission doesn't stop an equal run from being sent later
+    const score = result.score;
+    if (score <= highScore) {
+      setRunStatus(`Score ${score} doesn't beat your best of ${highScore}`);
+      return;
+    }
+    
+    if (!publicKey || !signMessage) {
+      setRunStatus('Connect a wallet that can sign messages to submit your score');
+      return;
+    }
+    
+    try {
+      const claim = createScoreClaim({
+        tournamentId,
+        player: publicKey.toBase58(),
+        score,
+        durationMs: result.durationMs,
+        log: run.log
+      });
+      setRunStatus('Please sign your score in your wallet...');
+      const signed = await signScoreClaim(claim, signMessage);
+      
+      // The service replays the run and checks the signature before ranking it
+      const submission = await tournamentClient.submitScore(tournamentId, { signed, log: run.log });
+      setHighScore(best => Math.max(best, submission.bestScore));
+      setRunStatus(`Score ${submission.bestScore} accepted, rank ${submission.rank}`);
+      await refreshTournament();
+    } catch (error) {
+      console.error('Error submitting score:', error);
+      setRunStatus(`Score not submitted: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+  
+  // Once the entry transfer confirms, prove it on-chain and register with the service.
+  // The signature is kept first, so a reload can find the entry without scanning.
+  const handleContribute = (amount: number, signature: string) => {
+    if (publicKey) saveEntrySignature(window.localStorage, tournamentId, publicKey, signature);
+    joinWithEntry(signature);
+  };
+  
+  // Count down to whatever the next transition of the tournament is
+  const countdownTargets: Record<TournamentPhase, number> = {
+    upcoming: currentWindow.startsAt,
+    open: currentWindow.endsAt,
+    settling: currentWindow.settlesAt,
+    closed: now
+  };
+  const timeRemaining = formatCountdown(countdownTargets[phase] - now);
   
   return (
     <div className="flex min-h-screen bg-gray-900 text-white p-4 font-sans">
       <div className="flex w-full max-w-7xl mx-auto gap-6">
         {/* Game Column */}
         <div className="w-2/3 bg-gray-800 rounded-lg overflow-hidden">
-          <DoodleJumpGame onScoreUpdate={handleScoreUpdate} />
+          <DoodleJumpGame
+            onScoreUpdate={handleScoreUpdate}
+            onRunComplete={handleRunComplete}
+            seed={seed}
+            ranked={entry !== null}
+          />
         </div>
         
         {/* Tournament Info Column */}
         <div className="w-1/3">
           <TournamentPanel
             currentHighScore={highScore}
-            highestScore={highestScore}
-            leaderAddress={leaderAddress}
-            players={players}
+            runStatus={runStatus}
+            highestScore={tournament ? tournament.highestScore : 0}
+            leaderAddress={tournament?.leader ?? ''}
+            players={tournament ? tournament.players : 0}
             prizePool={prizePool}
+            poolBalance={poolBalance}
+            phase={phase}
+            entered={entry !== null}
+            entryIssue={entryIssue}
+            onRetryJoin={joinWithEntry}
             timeRemaining={timeRemaining}
+            seed={seed}
+            tournamentId={tournamentId}
+            standingsUpdatedAt={tournamentUpdatedAt}
             onContribute={handleContribute}
           />
         </div>
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import {
+  ControlScheme,
+  ControlSettings,
+  MAX_TILT_SENSITIVITY,
+  MIN_TILT_SENSITIVITY,
+  tiltThreshold
+} from '../game/controls';
+import { isTiltSupported, requestTiltPermission } from '../game/deviceTilt';
+import { InputAction, InputBindings, keyLabel } from '../game/input';
+import { useDeviceTilt } from '../hooks/useDeviceTilt';
+
+interface ControlSettingsPanelProps {
+  settings: ControlSettings;
+  onChange: (settings: ControlSettings) => void;
+  bindings: InputBindings;
+  onEditBindings: () => void;
+}
+
+const SCHEME_LABELS: Record<ControlScheme, string> = {
+  keyboard: 'Keyboard',
+  touch: 'Touch',
+  tilt: 'Tilt'
+};
+
+// Control scheme picker for the start screen, with tilt calibration
+const ControlSettingsPanel: React.FC<ControlSettingsPanelProps> = ({ settings, onChange, bindings, onEditBindings }) => {
+  const [error, setError] = useState<string | null>(null);
+  const tilt = useDeviceTilt(settings.scheme === 'tilt');
+
+  const selectScheme = async (scheme: ControlScheme) => {
+    setError(null);
+    // The permission prompt has to be opened from this click
+    if (scheme === 'tilt' && !(await requestTiltPermission())) {
+      setError('Tilt steering needs access to motion sensors');
+      return;
+    }
+    onChange({ ...settings, scheme });
+  };
+
+  const schemes: ControlScheme[] = isTiltSupported() ? ['keyboard', 'touch', 'tilt'] : ['keyboard', 'touch'];
+  const level = tilt === null ? null : tilt - settings.tiltOffset;
+  const threshold = tiltThreshold(settings.tiltSensitivity);
+  const keys = (action: InputAction) => bindings.keys[action].map(keyLabel).join('/') || 'unbound';
+
+  return (
+    <div className="bg-white bg-opacity-20 backdrop-blur-sm rounded-lg p-3 mb-6 max-w-md z-10 text-white text-sm">
+      <div className="flex justify-center gap-2 mb-2">
+        {schemes.map(scheme => (
+          <button
+            key={scheme}
+            onClick={() => selectScheme(scheme)}
+            className={`px-3 py-1 rounded-full font-bold ${settings.scheme === scheme ? 'bg-white text-blue-600' : 'bg-blue-500 bg-opacity-60'}`}
+          >
+            {SCHEME_LABELS[scheme]}
+          </button>
+        ))}
+      </div>
+
+      {settings.scheme === 'keyboard' && (
+        <p className="text-center">
+          {keys('left')} and {keys('right')} to move, {keys('boost')} for a mini-boost, {keys('shoot')} to shoot, or use a gamepad
+        </p>
+      )}
+      {settings.scheme === 'touch' && (
+        <p className="text-center">Hold the left or right side of the screen to move, tap the buttons at the bottom to shoot and for a mini-boost</p>
+      )}
+      {settings.scheme === 'tilt' && (
+        <>
+          <p className="text-center mb-2">Tilt your phone to move, tap the shoot button to shoot and anywhere else for a mini-boost</p>
+          <label className="flex items-center justify-between gap-2 mb-2">
+            <span>Sensitivity</span>
+            <input
+              type="range"
+              min={MIN_TILT_SENSITIVITY}
+              max={MAX_TILT_SENSITIVITY}
+              step={1}
+              value={settings.tiltSensitivity}
+              onChange={event => onChange({ ...settings, tiltSensitivity: Number(event.target.value) })}
+            />
+          </label>
+          <div className="flex items-center justify-between">
+            <span>
+              {level === null
+                ? 'Waiting for the motion sensor...'
+                : `Tilt ${level.toFixed(0)}° (steers past ±${threshold}°)`}
+            </span>
+            <button
+              onClick={() => tilt !== null && onChange({ ...settings, tiltOffset: tilt })}
+              disabled={tilt === null}
+              className="px-3 py-1 rounded-full font-bold bg-blue-500 bg-opacity-60"
+            >
+              Calibrate
+            </button>
+          </div>
+          <p className="text-xs opacity-80 mt-1">Hold your phone the way you like to play and press Calibrate.</p>
+        </>
+      )}
+      {error && <p className="text-center text-red-200 mt-2">{error}</p>}
+      <div className="text-center mt-2">
+        <button onClick={onEditBindings} className="underline text-xs">Keys and gamepad settings</button>
+      </div>
+    </div>
+  );
+};
+
+export default ControlSettingsPanel;
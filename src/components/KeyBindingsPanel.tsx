@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ACTION_LABELS,
+  DEFAULT_BINDINGS,
+  INPUT_ACTIONS,
+  InputAction,
+  InputBindings,
+  KEYS_PER_ACTION,
+  MAX_DEAD_ZONE,
+  MIN_DEAD_ZONE,
+  bindKey,
+  keyLabel
+} from '../game/input';
+
+interface KeyBindingsPanelProps {
+  bindings: InputBindings;
+  onChange: (bindings: InputBindings) => void;
+  onClose: () => void;
+}
+
+const GAMEPAD_HELP = 'Gamepad: left stick or d-pad to move, A for the mini-boost, X to shoot, Start to pause';
+
+// Settings screen for rebinding keys and tuning the gamepad stick
+const KeyBindingsPanel: React.FC<KeyBindingsPanelProps> = ({ bindings, onChange, onClose }) => {
+  // The slot waiting for a key press, if any
+  const [listening, setListening] = useState<{ action: InputAction; slot: number } | null>(null);
+
+  // Escape cancels instead of being bound. The key is caught before the game's own
+  // listeners see it, so it doesn't also pause or resume the run.
+  useEffect(() => {
+    if (!listening) return;
+    const handleKey = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code !== 'Escape') onChange(bindKey(bindings, listening.action, listening.slot, event.code));
+      setListening(null);
+    };
+    window.addEventListener('keydown', handleKey, true);
+    return () => window.removeEventListener('keydown', handleKey, true);
+  }, [listening, bindings, onChange]);
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-black bg-opacity-50">
+      <div className="bg-gray-800 text-white rounded-lg p-5 w-full max-w-md">
+        <h3 className="text-xl font-semibold mb-3">Controls</h3>
+        <table className="w-full text-sm mb-4">
+          <tbody>
+            {INPUT_ACTIONS.map(action => (
+              <tr key={action}>
+                <td className="py-1">{ACTION_LABELS[action]}</td>
+                {Array.from({ length: KEYS_PER_ACTION }, (_, slot) => {
+                  const waiting = listening?.action === action && listening.slot === slot;
+                  const code = bindings.keys[action][slot];
+                  return (
+                    <td key={slot} className="py-1 pl-2">
+                      <button
+                        onClick={() => setListening(waiting ? null : { action, slot })}
+                        className={`w-full px-2 py-1 rounded font-mono ${waiting ? 'bg-yellow-500 text-gray-900' : 'bg-gray-600 hover:bg-gray-500'}`}
+                      >
+                        {waiting ? 'Press a key (Esc cancels)' : code ? keyLabel(code) : '-'}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <label className="flex items-center justify-between gap-2 text-sm mb-2">
+          <span>Stick dead zone ({Math.round(bindings.stickDeadZone * 100)}%)</span>
+          <input
+            type="range"
+            min={MIN_DEAD_ZONE}
+            max={MAX_DEAD_ZONE}
+            step={0.05}
+            value={bindings.stickDeadZone}
+            onChange={event => onChange({ ...bindings, stickDeadZone: Number(event.target.value) })}
+          />
+        </label>
+        <p className="text-xs text-gray-300 mb-4">{GAMEPAD_HELP}</p>
+
+        <div className="flex justify-between">
+          <button
+            onClick={() => { setListening(null); onChange(DEFAULT_BINDINGS); }}
+            className="px-3 py-1 rounded bg-gray-600 hover:bg-gray-500"
+          >
+            Reset to defaults
+          </button>
+          <button onClick={onClose} className="px-4 py-1 rounded font-bold bg-green-500 hover:bg-green-600">
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyBindingsPanel;
@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { tournamentClient } from '../tournament/client';
+import { LEADERBOARD_PAGE_SIZES } from '../tournament/leaderboard';
+import { LeaderboardEntry, LeaderboardPage } from '../tournament/types';
+import { formatAddress } from '../utils/format';
+
+interface LeaderboardProps {
+  tournamentId: string;
+  playerAddress: string | null;
+  // Changes whenever the tournament does, so the current page is reloaded
+  revision: unknown;
+}
+
+const Leaderboard: React.FC<LeaderboardProps> = ({ tournamentId, playerAddress, revision }) => {
+  const [pageSize, setPageSize] = useState(LEADERBOARD_PAGE_SIZES[0]);
+  const [offset, setOffset] = useState(0);
+  const [page, setPage] = useState<LeaderboardPage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new tournament starts its board from the top
+  useEffect(() => {
+    setOffset(0);
+  }, [tournamentId]);
+
+  // Reload the visible page whenever it changes or new scores arrive
+  useEffect(() => {
+    let cancelled = false;
+
+    tournamentClient.getLeaderboard(tournamentId, { limit: pageSize, offset, player: playerAddress })
+      .then(result => {
+        if (cancelled) return;
+        setPage(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Error loading leaderboard:', err);
+        setError('Leaderboard unavailable');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tournamentId, playerAddress, pageSize, offset, revision]);
+
+  const changePageSize = (size: number) => {
+    setPageSize(size);
+    setOffset(0);
+  };
+
+  const renderRow = (entry: LeaderboardEntry) => {
+    const isPlayer = entry.player === playerAddress;
+    return (
+      <div
+        key={entry.player}
+        className={`flex justify-between px-2 py-1 rounded ${isPlayer ? 'bg-purple-700 font-bold' : ''}`}
+      >
+        <span className="w-10 text-gray-300">#{entry.rank}</span>
+        <span className={`flex-1 ${entry.rank === 1 ? 'text-yellow-300' : ''}`}>
+          {formatAddress(entry.player)}{isPlayer ? ' (you)' : ''}
+        </span>
+        <span>{entry.score}</span>
+      </div>
+    );
+  };
+
+  const entries = page ? page.entries : [];
+  const playerOnPage = !!page?.player && entries.some(entry => entry.player === page.player!.player);
+  const hasPrevious = offset > 0;
+  const hasNext = !!page && offset + pageSize < page.total;
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg mb-4">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-xl font-semibold text-blue-300">Leaderboard</h3>
+        <div className="flex gap-1 text-xs">
+          {LEADERBOARD_PAGE_SIZES.map(size => (
+            <button
+              key={size}
+              onClick={() => changePageSize(size)}
+              className={`px-2 py-1 rounded ${size === pageSize ? 'bg-blue-500' : 'bg-gray-600 hover:bg-gray-500'}`}
+            >
+              Top {size}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-300">{error}</div>}
+      {!error && page && page.total === 0 && (
+        <div className="text-sm text-gray-300">No scores yet. Be the first!</div>
+      )}
+
+      <div className="text-sm max-h-64 overflow-y-auto">
+        {entries.map(renderRow)}
+        {page?.player && !playerOnPage && (
+          <>
+            <div className="text-center text-gray-400">...</div>
+            {renderRow(page.player)}
+          </>
+        )}
+      </div>
+
+      {page && page.total > pageSize && (
+        <div className="flex justify-between items-center mt-2 text-xs">
+          <button
+            onClick={() => setOffset(Math.max(0, offset - pageSize))}
+            disabled={!hasPrevious}
+            className={`px-2 py-1 rounded ${hasPrevious ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-800 text-gray-500'}`}
+          >
+            Previous
+          </button>
+          <span className="text-gray-300">
+            {offset + 1}-{Math.min(offset + pageSize, page.total)} of {page.total}
+          </span>
+          <button
+            onClick={() => setOffset(offset + pageSize)}
+            disabled={!hasNext}
+            className={`px-2 py-1 rounded ${hasNext ? 'bg-gray-600 hover:bg-gray-500' : 'bg-gray-800 text-gray-500'}`}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Leaderboard;
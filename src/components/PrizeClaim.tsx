@@ -0,0 +1,107 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { tournamentClient } from '../tournament/client';
+import { PrizeInfo, signPrizeClaim } from '../tournament/prizeClaim';
+import { PayoutState } from '../tournament/settlement';
+
+// Claim status is re-read this often while a payout is on its way
+const CLAIM_POLL_MS = 5000;
+
+const STATE_LABELS: Record<PayoutState, string> = {
+  unclaimed: 'Ready to claim',
+  claimed: 'Claimed - waiting for payout',
+  sending: 'Payout sent - confirming...',
+  paid: 'Paid'
+};
+
+const formatUsdc = (prize: PrizeInfo) => (Number(prize.amount) / 10 ** prize.decimals).toFixed(2);
+
+// Prizes the connected wallet won in settled tournaments
+const PrizeClaim: React.FC = () => {
+  const { publicKey, signMessage } = useWallet();
+  const [prizes, setPrizes] = useState<PrizeInfo[]>([]);
+  const [claiming, setClaiming] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const player = publicKey ? publicKey.toBase58() : null;
+
+  const loadPrizes = useCallback(async () => {
+    if (!player) return;
+    try {
+      setPrizes(await tournamentClient.getPrizes(player));
+    } catch (err) {
+      console.error('Error loading prizes:', err);
+    }
+  }, [player]);
+
+  useEffect(() => {
+    setPrizes([]);
+    loadPrizes();
+  }, [loadPrizes]);
+
+  // Follow claims until they are paid
+  const inProgress = prizes.some(prize => prize.state === 'claimed' || prize.state === 'sending');
+  useEffect(() => {
+    if (!inProgress) return;
+    const timer = setInterval(loadPrizes, CLAIM_POLL_MS);
+    return () => clearInterval(timer);
+  }, [inProgress, loadPrizes]);
+
+  const claim = async (prize: PrizeInfo) => {
+    if (!signMessage) {
+      setError('Your wallet cannot sign messages');
+      return;
+    }
+
+    setClaiming(prize.tournamentId);
+    setError(null);
+    try {
+      const signed = await signPrizeClaim({
+        tournamentId: prize.tournamentId,
+        player: prize.player,
+        amount: prize.amount,
+        reportHash: prize.reportHash
+      }, signMessage);
+      const updated = await tournamentClient.claimPrize(prize.tournamentId, signed);
+      setPrizes(current => current.map(existing => existing.tournamentId === updated.tournamentId ? updated : existing));
+    } catch (err) {
+      console.error('Error claiming prize:', err);
+      setError(err instanceof Error ? err.message : 'Claim failed');
+    } finally {
+      setClaiming(null);
+    }
+  };
+
+  if (!player || prizes.length === 0) return null;
+
+  return (
+    <div className="bg-gray-700 p-4 rounded-lg mb-4 border border-yellow-400">
+      <h3 className="text-xl font-semibold text-yellow-300 mb-2">Your Prizes</h3>
+      {prizes.map(prize => (
+        <div key={prize.tournamentId} className="mb-3 text-sm">
+          <div className="flex justify-between">
+            <span>{prize.tournamentId} (place {prize.places.join('/')})</span>
+            <span className="font-bold">{formatUsdc(prize)} USDC</span>
+          </div>
+          <div className="flex justify-between items-center mt-1">
+            <span className="text-gray-300">{STATE_LABELS[prize.state]}</span>
+            {prize.state === 'unclaimed' && (
+              <button
+                onClick={() => claim(prize)}
+                disabled={claiming !== null}
+                className={`px-3 py-1 rounded font-bold ${claiming === null ? 'bg-yellow-500 hover:bg-yellow-600 text-gray-900' : 'bg-gray-500'}`}
+              >
+                {claiming === prize.tournamentId ? 'Claiming...' : 'Claim prize'}
+              </button>
+            )}
+            {prize.transaction && (
+              <span className="font-mono text-xs text-gray-300">{prize.transaction.slice(0, 8)}...</span>
+            )}
+          </div>
+        </div>
+      ))}
+      {error && <div className="text-sm text-red-300">{error}</div>}
+    </div>
+  );
+};
+
+export default PrizeClaim;
@@ -1,189 +1,128 @@
-import React, { useEffect, useState } from 'react';
+import React, { useState } from 'react';
 import { useWallet, useConnection } from '@solana/wallet-adapter-react';
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
-import { 
-  LAMPORTS_PER_SOL, 
-  PublicKey, 
-  Transaction, 
-  SystemProgram,
-  sendAndConfirmTransaction,
-  Connection
-} from '@solana/web3.js';
-import { createTransferInstruction, getAssociatedTokenAddress } from '@solana/spl-token';
+import { appConfig } from '../config';
+import { formatSeed } from '../game/random';
+import { EntryPaymentError, EntryPaymentStatus, sendEntryPayment } from '../tournament/entryPayment';
+import { TournamentPhase } from '../tournament/schedule';
+import { formatAddress } from '../utils/format';
+import Leaderboard from './Leaderboard';
+import PrizeClaim from './PrizeClaim';
 
-// USDC pool wallet address
-const POOL_WALLET_ADDRESS = '97P6dCEjSGvYsePRYV7N9R6pbVvA9SccVuHqiLVE66MC';
-// USDC token mint address on Solana - use the correct one for your network
-// Mainnet USDC
-const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
-// Devnet USDC (uncomment if using devnet)
-// const USDC_MINT = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+const PHASE_LABELS: Record<TournamentPhase, string> = {
+  upcoming: 'Starts In:',
+  open: 'Time Remaining:',
+  settling: 'Closed - Settling:',
+  closed: 'Status:'
+};
+
+const ENTRY_STATUS_MESSAGES: Record<EntryPaymentStatus, string> = {
+  preparing: 'Preparing transaction...',
+  approving: 'Please approve the transaction in your wallet...',
+  confirming: 'Transaction sent! Confirming...'
+};
+
+export interface EntryIssue {
+  signature: string; // The entry transaction the player already paid with
+  message: string;
+}
 
 interface TournamentPanelProps {
   currentHighScore: number;
+  runStatus: string | null; // What happened to the last finished run
   highestScore: number;
   leaderAddress: string;
   players: number;
-  prizePool: number;
-  timeRemaining: string;
-  onContribute: (amount: number) => void;
+  prizePool: number | null; // USDC this tournament pays out after the buyback share, null while loading
+  poolBalance: number | null; // On-chain USDC balance of the pool wallet, null while loading
+  phase: TournamentPhase;
+  entered: boolean; // The player's entry for this tournament was found on-chain
+  entryIssue: EntryIssue | null; // Why a paid entry hasn't been registered yet
+  timeRemaining: string; // Until the next phase change
+  seed: number;
+  tournamentId: string;
+  standingsUpdatedAt: number;
+  onContribute: (amount: number, signature: string) => void;
+  onRetryJoin: (signature: string) => void; // Join again with an entry that was already paid
 }
 
 const TournamentPanel: React.FC<TournamentPanelProps> = ({
   currentHighScore,
+  runStatus,
   highestScore,
   leaderAddress,
   players,
   prizePool,
+  poolBalance,
+  phase,
+  entered,
+  entryIssue,
   timeRemaining,
-  onContribute
+  seed,
+  tournamentId,
+  standingsUpdatedAt,
+  onContribute,
+  onRetryJoin
 }) => {
   const { connected, publicKey, sendTransaction } = useWallet();
   const { connection } = useConnection();
-  const [contribution, setContribution] = React.useState<number>(1);
-  const [poolBalance, setPoolBalance] = useState<number>(0);
+  const [contribution, setContribution] = React.useState<number>(appConfig.minimumEntry);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<string | null>(null);
 
-  // Function to fetch the USDC balance of the pool wallet
-  const fetchPoolBalance = async (
-    connection: Connection, 
-    setPoolBalance: React.Dispatch<React.SetStateAction<number>>
-  ) => {
-    try {
-      // For demo purposes, just set a mock balance
-      // This avoids RPC errors during development
-      setPoolBalance(Math.random() * 100 + 50);
-      
-      // In production, uncomment this code:
-      /*
-      const poolWalletPubkey = new PublicKey(POOL_WALLET_ADDRESS);
-      const usdcMintPubkey = new PublicKey(USDC_MINT);
-      
-      // Find the token account for this wallet that holds USDC
-      const tokenAccounts = await connection.getParsedTokenAccountsByOwner(
-        poolWalletPubkey,
-        { mint: usdcMintPubkey }
-      );
-      
-      // If token account exists, get the balance
-      if (tokenAccounts.value.length > 0) {
-        // Get the amount from the first token account
-        const tokenAccount = tokenAccounts.value[0];
-        const amount = tokenAccount.account.data.parsed.info.tokenAmount.uiAmount;
-        setPoolBalance(amount);
-      } else {
-        console.log('No USDC token account found for the pool wallet');
-        setPoolBalance(0);
-      }
-      */
-    } catch (error) {
-      console.error('Error fetching pool balance:', error);
-      // Set a fallback value for demo purposes
-      setPoolBalance(Math.random() * 100 + 50);
-    }
-  };
-
-  // Fetch the pool balance when the component mounts and periodically
-  useEffect(() => {
-    fetchPoolBalance(connection, setPoolBalance);
-    
-    // Refresh the balance every 30 seconds
-    const intervalId = setInterval(() => fetchPoolBalance(connection, setPoolBalance), 30000);
-    
-    return () => clearInterval(intervalId);
-  }, [connection]);
+  // One entry per tournament, so an entered player, or one whose paid entry is
+  // waiting to be retried, can't pay again by accident
+  const canContribute = !isSubmitting && !entered && !entryIssue && phase === 'open';
+  const contributeLabel = isSubmitting ? 'Processing...'
+    : entered ? 'Entered'
+    : entryIssue ? 'Entry Pending'
+    : phase === 'open' ? 'Contribute & Play'
+    : 'Entries Closed';
 
   // Function to send USDC to the pool wallet
   const sendUSDCToPool = async (amount: number) => {
     if (!publicKey) {
       setTransactionStatus('Error: Wallet not connected');
-      return false;
+      return null;
     }
 
     setIsSubmitting(true);
-    setTransactionStatus('Preparing transaction...');
 
     try {
-      // For demo purposes, simulate a successful transaction
-      setTransactionStatus('Please approve the transaction in your wallet...');
-      
-      // Simulate wallet approval delay
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      setTransactionStatus('Transaction sent! Confirming...');
-      
-      // Simulate confirmation delay
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      setTransactionStatus('Transaction confirmed! You are now in the tournament.');
-      setTimeout(() => setTransactionStatus(null), 5000);
-      setIsSubmitting(false);
-      
-      // In production, uncomment this code:
-      /*
-      // Get the associated token accounts for the user and pool
-      const userUsdcAddress = await getAssociatedTokenAddress(
-        new PublicKey(USDC_MINT),
-        publicKey
-      );
-      
-      const poolUsdcAddress = await getAssociatedTokenAddress(
-        new PublicKey(USDC_MINT),
-        new PublicKey(POOL_WALLET_ADDRESS)
-      );
+      const signature = await sendEntryPayment({
+        connection,
+        sendTransaction,
+        player: publicKey,
+        tournamentId,
+        amount,
+        config: appConfig,
+        onStatus: status => setTransactionStatus(ENTRY_STATUS_MESSAGES[status])
+      });
 
-      // Create a transfer instruction
-      const transferInstruction = createTransferInstruction(
-        userUsdcAddress,
-        poolUsdcAddress,
-        publicKey,
-        BigInt(amount * 1000000) // USDC has 6 decimals
-      );
-
-      // Create a transaction and add the transfer instruction
-      const transaction = new Transaction().add(transferInstruction);
-      
-      // Set recent blockhash and fee payer
-      const { blockhash } = await connection.getLatestBlockhash();
-      transaction.recentBlockhash = blockhash;
-      transaction.feePayer = publicKey;
-      
-      // Send the transaction
-      const signature = await sendTransaction(transaction, connection);
-      
-      // Wait for confirmation
-      const confirmation = await connection.confirmTransaction(signature);
-      */
-      
-      return true;
-      
+      setTransactionStatus('Transaction confirmed! Joining the tournament...');
+      setTimeout(() => setTransactionStatus(null), 5000);
+      return signature;
     } catch (error) {
       console.error('Error sending USDC:', error);
-      setTransactionStatus(`Transaction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setTransactionStatus(error instanceof EntryPaymentError
+        ? error.message
+        : `Transaction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    } finally {
       setIsSubmitting(false);
-      return false;
     }
   };
 
   const handleContributeSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (contribution >= 1) {
-      const success = await sendUSDCToPool(contribution);
-      if (success) {
-        onContribute(contribution);
-        // After contribution, refresh the pool balance
-        setTimeout(() => fetchPoolBalance(connection, setPoolBalance), 5000); // Wait 5 seconds for transaction to process
+    if (canContribute && contribution >= appConfig.minimumEntry) {
+      const signature = await sendUSDCToPool(contribution);
+      if (signature) {
+        onContribute(contribution, signature);
       }
     }
   };
 
-  // Format address for display (truncate middle)
-  const formatAddress = (address: string) => {
-    if (!address) return 'No leader yet';
-    return `${address.slice(0, 4)}...${address.slice(-4)}`;
-  };
-
   return (
     <div className="bg-gray-800 text-white p-6 rounded-lg shadow-lg h-full flex flex-col">
       <h2 className="text-2xl font-bold mb-6 text-center">Hedgy Jump Tournament</h2>
@@ -192,17 +131,21 @@ const TournamentPanel: React.FC<TournamentPanelProps> = ({
         <div className="bg-gray-700 p-4 rounded-lg mb-4">
           <h3 className="text-xl font-semibold text-yellow-400 mb-2">Daily Tournament</h3>
           <div className="flex justify-between mb-2">
-            <span>Time Remaining:</span>
-            <span className="font-bold">{timeRemaining}</span>
+            <span>{PHASE_LABELS[phase]}</span>
+            <span className="font-bold">{phase === 'closed' ? 'Closed' : timeRemaining}</span>
           </div>
           <div className="flex justify-between mb-2">
             <span>Prize Pool:</span>
-            <span className="font-bold">{poolBalance.toFixed(2)} USDC</span>
+            <span className="font-bold">{prizePool === null ? '...' : `${prizePool.toFixed(2)} USDC`}</span>
           </div>
-          <div className="flex justify-between">
+          <div className="flex justify-between mb-2">
             <span>Total Players:</span>
             <span className="font-bold">{players}</span>
           </div>
+          <div className="flex justify-between">
+            <span>Course Seed:</span>
+            <span className="font-mono">{formatSeed(seed)}</span>
+          </div>
         </div>
         
         <div className="bg-gray-700 p-4 rounded-lg mb-4">
@@ -219,7 +162,20 @@ const TournamentPanel: React.FC<TournamentPanelProps> = ({
             <span>Your Best Score:</span>
             <span className="font-bold">{currentHighScore}</span>
           </div>
+          {runStatus && (
+            <div className="bg-gray-900 p-2 rounded mt-2 text-sm">
+              {runStatus}
+            </div>
+          )}
         </div>
+        
+        <PrizeClaim />
+        
+        <Leaderboard
+          tournamentId={tournamentId}
+          playerAddress={publicKey ? publicKey.toBase58() : null}
+          revision={standingsUpdatedAt}
+        />
       </div>
       
       <div className="mt-auto">
@@ -231,11 +187,14 @@ const TournamentPanel: React.FC<TournamentPanelProps> = ({
         ) : (
           <form onSubmit={handleContributeSubmit} className="bg-gray-700 p-4 rounded-lg">
             <h3 className="text-xl font-semibold text-purple-400 mb-2">Join Tournament</h3>
-            <p className="text-sm mb-2">Minimum contribution: 1 USDC</p>
+            {entered && (
+              <p className="text-sm text-green-300 mb-2">You're entered - your runs count for the leaderboard.</p>
+            )}
+            <p className="text-sm mb-2">Minimum contribution: {appConfig.minimumEntry} USDC</p>
             <div className="flex items-center gap-2 mb-3">
               <input
                 type="number"
-                min="1"
+                min={appConfig.minimumEntry}
                 step="1"
                 value={contribution}
                 onChange={(e) => setContribution(Number(e.target.value))}
@@ -251,23 +210,39 @@ const TournamentPanel: React.FC<TournamentPanelProps> = ({
               </div>
             )}
             
+            {entryIssue && !entered && (
+              <div className="bg-gray-900 p-2 rounded mb-3 text-sm">
+                <p className="text-red-300">{entryIssue.message}</p>
+                <p className="font-mono text-xs text-gray-400 break-all my-1">Transaction: {entryIssue.signature}</p>
+                <p className="mb-2">Your payment went through, so there's no need to pay again.</p>
+                <button
+                  type="button"
+                  className="w-full bg-purple-600 hover:bg-purple-700 text-white font-bold py-1 px-4 rounded"
+                  onClick={() => onRetryJoin(entryIssue.signature)}
+                >
+                  Retry Joining
+                </button>
+              </div>
+            )}
+            
             <button 
               type="submit" 
-              className={`w-full ${isSubmitting ? 'bg-gray-500' : 'bg-purple-600 hover:bg-purple-700'} text-white font-bold py-2 px-4 rounded`}
-              disabled={isSubmitting}
+              className={`w-full ${canContribute ? 'bg-purple-600 hover:bg-purple-700' : 'bg-gray-500'} text-white font-bold py-2 px-4 rounded`}
+              disabled={!canContribute}
             >
-              {isSubmitting ? 'Processing...' : 'Contribute & Play'}
+              {contributeLabel}
             </button>
           </form>
         )}
         
         <div className="text-center text-xs text-gray-400 mt-4">
-          20% of each pool is collected to buy back $HEDGY.
+          {appConfig.feeSplit.buybackPercent}% of each pool is collected to buy back $HEDGY.
         </div>
       </div>
       
       <div className="text-center text-xs text-gray-400 mt-4">
-        Pool Wallet: {formatAddress(POOL_WALLET_ADDRESS)}
+        Pool Wallet: {formatAddress(appConfig.poolWallet.toBase58())} ({appConfig.cluster})
+        {poolBalance !== null && ` holds ${poolBalance.toFixed(2)} USDC`}
       </div>
     </div>
   );
@@ -0,0 +1,73 @@
+import { CLUSTER_PROFILES, ConfigError, loadAppConfig } from './config';
+
+const LOCAL_MINT = 'So11111111111111111111111111111111111111112';
+
+describe('app configuration', () => {
+  it('defaults to devnet with the devnet USDC mint', () => {
+    const config = loadAppConfig({});
+    expect(config.cluster).toBe('devnet');
+    expect(config.rpcEndpoint).toBe(CLUSTER_PROFILES.devnet.rpcEndpoint);
+    expect(config.usdcMint.toBase58()).toBe(CLUSTER_PROFILES.devnet.usdcMint);
+    expect(config.minimumEntry).toBe(1);
+    expect(config.feeSplit).toEqual({ prizePoolPercent: 80, buybackPercent: 20 });
+    expect(config.prizeTiers).toEqual([100]);
+    expect(config.buybackWallet.equals(config.poolWallet)).toBe(true);
+  });
+
+  it('reads prize tiers that add up to the whole prize pool', () => {
+    expect(loadAppConfig({ REACT_APP_PRIZE_TIERS: '60, 30, 10' }).prizeTiers).toEqual([60, 30, 10]);
+    expect(() => loadAppConfig({ REACT_APP_PRIZE_TIERS: '60,30' })).toThrow('REACT_APP_PRIZE_TIERS');
+  });
+
+  it('switches mint and endpoint together with the cluster', () => {
+    const config = loadAppConfig({ REACT_APP_SOLANA_CLUSTER: 'mainnet-beta' });
+    expect(config.rpcEndpoint).toBe(CLUSTER_PROFILES['mainnet-beta'].rpcEndpoint);
+    expect(config.usdcMint.toBase58()).toBe(CLUSTER_PROFILES['mainnet-beta'].usdcMint);
+  });
+
+  it('points localnet at a local validator and requires a mint', () => {
+    expect(() => loadAppConfig({ REACT_APP_SOLANA_CLUSTER: 'localnet' })).toThrow('REACT_APP_USDC_MINT is required');
+
+    const config = loadAppConfig({ REACT_APP_SOLANA_CLUSTER: 'localnet', REACT_APP_USDC_MINT: LOCAL_MINT });
+    expect(config.rpcEndpoint).toBe('http://127.0.0.1:8899');
+    expect(config.usdcMint.toBase58()).toBe(LOCAL_MINT);
+    expect(config.burnerWallet).toBe(true);
+  });
+
+  it('only allows the burner wallet off mainnet', () => {
+    expect(loadAppConfig({}).burnerWallet).toBe(false);
+    expect(loadAppConfig({ REACT_APP_BURNER_WALLET: 'true' }).burnerWallet).toBe(true);
+    expect(() => loadAppConfig({ REACT_APP_SOLANA_CLUSTER: 'mainnet-beta', REACT_APP_BURNER_WALLET: 'true' }))
+      .toThrow('REACT_APP_BURNER_WALLET');
+  });
+
+  it('accepts overrides for endpoint, pool, entry and fee split', () => {
+    const config = loadAppConfig({
+      REACT_APP_RPC_ENDPOINT: 'https://rpc.example.com',
+      REACT_APP_POOL_WALLET: LOCAL_MINT,
+      REACT_APP_MINIMUM_ENTRY: '2.5',
+      REACT_APP_BUYBACK_PERCENT: '10'
+    });
+    expect(config.rpcEndpoint).toBe('https://rpc.example.com');
+    expect(config.poolWallet.toBase58()).toBe(LOCAL_MINT);
+    expect(config.minimumEntry).toBe(2.5);
+    expect(config.feeSplit).toEqual({ prizePoolPercent: 90, buybackPercent: 10 });
+  });
+
+  it('reports every invalid setting at once', () => {
+    let error: unknown;
+    try {
+      loadAppConfig({
+        REACT_APP_RPC_ENDPOINT: 'not a url',
+        REACT_APP_POOL_WALLET: 'nope',
+        REACT_APP_MINIMUM_ENTRY: '0',
+        REACT_APP_BUYBACK_PERCENT: '120'
+      });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).problems).toHaveLength(4);
+    expect(() => loadAppConfig({ REACT_APP_SOLANA_CLUSTER: 'moonnet' })).toThrow(ConfigError);
+  });
+});
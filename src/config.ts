@@ -0,0 +1,142 @@
+import { PublicKey, clusterApiUrl } from '@solana/web3.js';
+
+// App configuration. Cluster, RPC endpoint, USDC mint and pool wallet are picked
+// together from REACT_APP_* settings so they can never point at different networks.
+
+export type ClusterName = 'mainnet-beta' | 'devnet' | 'testnet' | 'localnet';
+
+export interface FeeSplit {
+  prizePoolPercent: number;
+  buybackPercent: number; // Collected to buy back $HEDGY
+}
+
+export interface AppConfig {
+  cluster: ClusterName;
+  rpcEndpoint: string;
+  usdcMint: PublicKey;
+  poolWallet: PublicKey;
+  buybackWallet: PublicKey; // Receives the buyback share at settlement
+  minimumEntry: number; // USDC
+  feeSplit: FeeSplit;
+  prizeTiers: number[]; // Percent of the prize pool for 1st, 2nd, ... place
+  tournamentApiUrl: string;
+  burnerWallet: boolean; // Offer the localStorage dev wallet
+}
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+interface ClusterProfile {
+  rpcEndpoint: string;
+  usdcMint?: string; // No canonical mint on a local validator, so it must be configured
+}
+
+const DEFAULT_POOL_WALLET = '97P6dCEjSGvYsePRYV7N9R6pbVvA9SccVuHqiLVE66MC';
+
+export const CLUSTER_PROFILES: Record<ClusterName, ClusterProfile> = {
+  'mainnet-beta': {
+    rpcEndpoint: clusterApiUrl('mainnet-beta'),
+    usdcMint: 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+  },
+  devnet: {
+    rpcEndpoint: clusterApiUrl('devnet'),
+    usdcMint: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU'
+  },
+  testnet: {
+    rpcEndpoint: clusterApiUrl('testnet')
+  },
+  // solana-test-validator defaults
+  localnet: {
+    rpcEndpoint: 'http://127.0.0.1:8899'
+  }
+};
+
+type Env = Record<string, string | undefined>;
+
+// Build and validate the configuration, reporting every problem at once
+export const loadAppConfig = (env: Env): AppConfig => {
+  const problems: string[] = [];
+
+  const readPublicKey = (name: string, value: string | undefined) => {
+    if (!value) {
+      problems.push(`${name} is required`);
+      return PublicKey.default;
+    }
+    try {
+      return new PublicKey(value);
+    } catch (error) {
+      problems.push(`${name} "${value}" is not a valid public key`);
+      return PublicKey.default;
+    }
+  };
+
+  const readNumber = (name: string, fallback: number, isValid: (value: number) => boolean, requirement: string) => {
+    const raw = env[name];
+    if (raw === undefined || raw === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || !isValid(value)) problems.push(`${name} must be ${requirement}, got "${raw}"`);
+    return value;
+  };
+
+  const readUrl = (name: string, fallback: string) => {
+    const value = env[name] || fallback;
+    if (!/^https?:\/\/[^\s]+$/.test(value)) problems.push(`${name} "${value}" is not an http(s) URL`);
+    return value;
+  };
+
+  const readPrizeTiers = () => {
+    const raw = env.REACT_APP_PRIZE_TIERS;
+    if (!raw) return [100];
+    const tiers = raw.split(',').map(tier => Number(tier.trim()));
+    const total = tiers.reduce((sum, tier) => sum + tier, 0);
+    if (tiers.some(tier => !Number.isFinite(tier) || tier <= 0) || Math.abs(total - 100) > 1e-9) {
+      problems.push(`REACT_APP_PRIZE_TIERS must be positive percentages adding up to 100, got "${raw}"`);
+    }
+    return tiers;
+  };
+
+  const cluster = (env.REACT_APP_SOLANA_CLUSTER || 'devnet') as ClusterName;
+  const profile = CLUSTER_PROFILES[cluster];
+  if (!profile) {
+    problems.push(`REACT_APP_SOLANA_CLUSTER must be one of ${Object.keys(CLUSTER_PROFILES).join(', ')}, got "${cluster}"`);
+    throw new ConfigError(problems);
+  }
+
+  // The dev wallet keeps its key in localStorage, so it must never handle real funds
+  const burnerWallet = env.REACT_APP_BURNER_WALLET ? env.REACT_APP_BURNER_WALLET === 'true' : cluster === 'localnet';
+  if (burnerWallet && cluster === 'mainnet-beta') problems.push('REACT_APP_BURNER_WALLET cannot be enabled on mainnet-beta');
+
+  const buybackPercent = readNumber('REACT_APP_BUYBACK_PERCENT', 20, value => value >= 0 && value <= 100, 'between 0 and 100');
+
+  const poolWallet = readPublicKey('REACT_APP_POOL_WALLET', env.REACT_APP_POOL_WALLET || DEFAULT_POOL_WALLET);
+
+  const config: AppConfig = {
+    cluster,
+    rpcEndpoint: readUrl('REACT_APP_RPC_ENDPOINT', profile.rpcEndpoint),
+    usdcMint: readPublicKey('REACT_APP_USDC_MINT', env.REACT_APP_USDC_MINT || profile.usdcMint),
+    poolWallet,
+    // Without a separate buyback wallet the buyback share simply stays in the pool wallet
+    buybackWallet: env.REACT_APP_BUYBACK_WALLET
+      ? readPublicKey('REACT_APP_BUYBACK_WALLET', env.REACT_APP_BUYBACK_WALLET)
+      : poolWallet,
+    minimumEntry: readNumber('REACT_APP_MINIMUM_ENTRY', 1, value => value > 0, 'a positive USDC amount'),
+    feeSplit: {
+      prizePoolPercent: 100 - buybackPercent,
+      buybackPercent
+    },
+    prizeTiers: readPrizeTiers(),
+    tournamentApiUrl: readUrl('REACT_APP_TOURNAMENT_API_URL', 'http://localhost:4000'),
+    burnerWallet
+  };
+
+  if (problems.length > 0) throw new ConfigError(problems);
+
+  return config;
+};
+
+// Validated once at startup. CRA inlines the REACT_APP_* values at build time.
+export const appConfig = loadAppConfig(process.env);
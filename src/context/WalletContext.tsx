@@ -1,9 +1,9 @@
 import { useMemo } from 'react';
-import { WalletAdapterNetwork } from '@solana/wallet-adapter-base';
 import { ConnectionProvider, WalletProvider } from '@solana/wallet-adapter-react';
 import { PhantomWalletAdapter } from '@solana/wallet-adapter-phantom';
 import { WalletModalProvider } from '@solana/wallet-adapter-react-ui';
-import { clusterApiUrl } from '@solana/web3.js';
+import { appConfig } from '../config';
+import { BurnerWalletAdapter } from '../wallet/BurnerWalletAdapter';
 
 // Import the wallet adapter styles
 import '@solana/wallet-adapter-react-ui/styles.css';
@@ -13,14 +13,15 @@ interface WalletContextProviderProps {
 }
 
 export const WalletContextProvider = ({ children }: WalletContextProviderProps) => {
-  // The network can be set to 'devnet', 'testnet', or 'mainnet-beta'
-  const network = WalletAdapterNetwork.Devnet;
+  // Cluster and RPC endpoint come from the app configuration (REACT_APP_SOLANA_CLUSTER, REACT_APP_RPC_ENDPOINT)
+  const endpoint = appConfig.rpcEndpoint;
 
-  // You can also provide a custom RPC endpoint
-  const endpoint = useMemo(() => clusterApiUrl(network), [network]);
-
-  // Only use the PhantomWalletAdapter as specified
-  const wallets = useMemo(() => [new PhantomWalletAdapter()], []);
+  // Wallets implementing the Wallet Standard (Phantom, Solflare, Backpack, ...) are detected
+  // automatically. These adapters cover older Phantom versions and the dev burner wallet.
+  const wallets = useMemo(() => [
+    new PhantomWalletAdapter(),
+    ...(appConfig.burnerWallet ? [new BurnerWalletAdapter()] : [])
+  ], []);
 
   return (
     <ConnectionProvider endpoint={endpoint}>
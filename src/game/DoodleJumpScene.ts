@@ -0,0 +1,1122 @@
+import Phaser from 'phaser';
+import { POWER_UP_ITEM_HEIGHT, POWER_UP_ITEM_WIDTH, STEP_MS } from './constants';
+import { COIN_SIZE } from './coins';
+import { BOOST_BUTTON_MARGIN, BOOST_BUTTON_RADIUS, ControlSettings, SHOOT_BUTTON_MARGIN } from './controls';
+import { InputBindings } from './input';
+import { InputController } from './InputController';
+import { ENEMY_KINDS } from './enemies';
+import { FixedStepper } from './FixedStepper';
+import { ObjectPool } from './ObjectPool';
+import { PauseReason, canPause } from './pauseRules';
+import { PLATFORM_BEHAVIORS } from './platformBehaviors';
+import { POWER_UPS } from './powerUps';
+import { PROJECTILE_SIZE } from './projectiles';
+import { InputRecorder, RunResult } from './replay';
+import { createSimulation, stepSimulation } from './simulation';
+import { EnemyKind, PlatformType, PowerUpKind, SimEvent, SimState } from './types';
+
+// Everything the scene needs from the React side. Read through callbacks so the
+// scene, which is only created once, always sees the latest values.
+export interface DoodleJumpSceneCallbacks {
+  getSeed: () => number;
+  getControls: () => ControlSettings;
+  getBindings: () => InputBindings;
+  isRankedRun: () => boolean;
+  onScoreUpdate: (score: number) => void;
+  onRunComplete: (run: RunResult) => void;
+  onPause: (pause: RunPause) => void;
+  onGameOver: () => void;
+}
+
+// Warm flash on the shooting pose
+const SHOOT_TINT = 0xffcc66;
+
+export interface RunPause {
+  reason: PauseReason;
+  pausesUsed: number; // Including this one
+  ranked: boolean;
+}
+
+// Renders the headless simulation and feeds it player input. No gameplay rules live here.
+export class DoodleJumpScene extends Phaser.Scene {
+  private player?: Phaser.GameObjects.Sprite;
+  private scoreText?: Phaser.GameObjects.Text;
+  private clouds?: Phaser.GameObjects.Group;
+  private sim?: SimState; // Gameplay state - the scene only renders it
+  private recorder?: InputRecorder; // Records every step so the run can be replayed
+  private stepper = new FixedStepper();
+  // Positions before the latest step, to draw frames that fall between two steps
+  private previous = {
+    playerX: 0,
+    playerY: 0,
+    cameraY: 0,
+    platforms: new Map<number, { x: number; y: number }>(),
+    enemies: new Map<number, number>(), // Only x, enemies never move vertically
+    projectiles: new Map<number, number>(), // Only y, shots fly straight up
+    coins: new Map<number, { x: number; y: number }>()
+  };
+  private platformSprites = new Map<number, Phaser.GameObjects.Image>();
+  private powerUpSprites = new Map<number, Phaser.GameObjects.Image>();
+  private coinSprites = new Map<number, Phaser.GameObjects.Image>();
+  private enemySprites = new Map<number, Phaser.GameObjects.Image>();
+  private projectileSprites = new Map<number, Phaser.GameObjects.Image>();
+  // Recycled game objects, so long runs don't keep creating and destroying them
+  private platformPool?: ObjectPool<Phaser.GameObjects.Image>;
+  private powerUpPool?: ObjectPool<Phaser.GameObjects.Image>;
+  private coinPool?: ObjectPool<Phaser.GameObjects.Image>;
+  private enemyPool?: ObjectPool<Phaser.GameObjects.Image>;
+  private projectilePool?: ObjectPool<Phaser.GameObjects.Image>;
+  private motivationalTexts?: ObjectPool<Phaser.GameObjects.Text>;
+  private powerUpTexts?: ObjectPool<Phaser.GameObjects.Text>;
+  private bonusTexts?: ObjectPool<Phaser.GameObjects.Text>;
+  private boostTrail?: Phaser.GameObjects.Particles.ParticleEmitter;
+  private fartEmitter?: Phaser.GameObjects.Particles.ParticleEmitter;
+  private hitEmitter?: Phaser.GameObjects.Particles.ParticleEmitter;
+  // The active power-up's label over the player, aura around them and timer on screen
+  private powerUpEffect?: { text: Phaser.GameObjects.Text; follow: () => void };
+  private powerUpAura?: Phaser.GameObjects.Arc;
+  private powerUpTimerText?: Phaser.GameObjects.Text;
+  private powerUpTimerBar?: Phaser.GameObjects.Rectangle;
+  private controller?: InputController; // Controls and bindings are fixed for the whole run
+
+  constructor(private callbacks: DoodleJumpSceneCallbacks) {
+    super({ key: 'DoodleJumpScene' });
+  }
+
+  preload() {
+    // Load custom platform image instead of the default one
+    this.load.image('platform', '/assets/platforms/platform1.png');
+    
+    // Keep the hedgy character images
+    this.load.image('hedgy1', '/assets/charachter/hedgy1.png');
+    this.load.image('hedgy2', '/assets/charachter/hedgy2.png');
+    
+    // Keep the fallback in case the images still don't load
+    this.load.on('loaderror', (fileObj: any) => {
+      // If hedgy images fail to load, use a placeholder
+      if (fileObj.key === 'hedgy1' || fileObj.key === 'hedgy2') {
+        this.load.image(fileObj.key, 'https://raw.githubusercontent.com/photonstorm/phaser3-examples/master/public/assets/sprites/phaser-dude.png');
+        this.load.start(); // Restart loader for this asset
+      }
+      
+      // If platform image fails to load, use the default one
+      if (fileObj.key === 'platform') {
+        this.load.image(fileObj.key, 'https://raw.githubusercontent.com/photonstorm/phaser3-examples/master/public/assets/sprites/platform.png');
+        this.load.start(); // Restart loader for this asset
+      }
+    });
+    
+    // For platform types, use the same custom platform image with different tints
+    this.load.image('platform-default', '/assets/platforms/platform1.png');
+    this.load.image('platform-moving', '/assets/platforms/platform1.png');
+    this.load.image('platform-breakable', '/assets/platforms/platform1.png');
+    this.load.image('platform-disappearing', '/assets/platforms/platform1.png');
+    this.load.image('platform-vertical', '/assets/platforms/platform1.png');
+    this.load.image('platform-spring', '/assets/platforms/platform1.png');
+    this.load.image('platform-crumbling', '/assets/platforms/platform1.png');
+    this.load.image('monster', '/assets/enemies/monster.png');
+    
+    // Cloud images - make sure these exist
+    this.load.image('cloud1', '/assets/clouds/cloud1.png');
+    this.load.image('cloud2', '/assets/clouds/cloud2.png');
+    this.load.image('cloud3', '/assets/clouds/cloud3.png');
+    
+    // Fallback for cloud images
+    this.load.on('loaderror', (fileObj: any) => {
+      if (fileObj.key.startsWith('cloud')) {
+        this.load.image(fileObj.key, 'https://raw.githubusercontent.com/photonstorm/phaser3-examples/master/public/assets/sprites/cloud.png');
+        this.load.start(); // Restart loader for this asset
+      }
+    });
+    
+    // Load the boost item image
+    this.load.image('boost-item', '/assets/bonus/paper-roll.png');
+    
+    // Load fart animation sprite
+    this.load.image('fart', '/assets/effects/fart.png');
+  }
+
+  create() {
+    // Start a fresh simulation on the tournament's course and record the run
+    this.sim = createSimulation(this.callbacks.getSeed());
+    this.recorder = new InputRecorder(this.callbacks.getSeed());
+    this.platformSprites = new Map();
+    this.powerUpSprites = new Map();
+    this.coinSprites = new Map();
+    this.powerUpEffect = undefined;
+    this.enemySprites = new Map();
+    this.projectileSprites = new Map();
+    this.stepper = new FixedStepper();
+    this.previous.platforms.clear();
+    this.previous.enemies.clear();
+    this.previous.projectiles.clear();
+    this.previous.coins.clear();
+    this.rememberPositions();
+    
+    // Pools start empty on every (re)start, since shutting the scene down destroys its game objects
+    this.platformPool = new ObjectPool(() => this.createPlatformSprite(), {
+      onRelease: sprite => this.tweens.killTweensOf(sprite)
+    });
+    this.createDrawnTextures();
+    this.enemyPool = new ObjectPool(() => this.add.image(0, 0, 'monster').setDepth(7), {
+      onRelease: sprite => this.tweens.killTweensOf(sprite)
+    });
+    this.projectilePool = new ObjectPool(() => this.add.image(0, 0, 'projectile').setDepth(8));
+    this.coinPool = new ObjectPool(() => this.add.image(0, 0, 'coin').setDepth(6));
+    this.powerUpPool = new ObjectPool(() => this.createPowerUpSprite(), {
+      onAcquire: sprite => (sprite.getData('tweens') as Phaser.Tweens.Tween[]).forEach(tween => tween.resume()),
+      onRelease: sprite => (sprite.getData('tweens') as Phaser.Tweens.Tween[]).forEach(tween => tween.pause())
+    });
+    this.motivationalTexts = this.createTextPool({
+      fontFamily: 'Arial',
+      fontSize: '40px',
+      fontStyle: 'bold',
+      align: 'center',
+      stroke: '#0033aa',
+      strokeThickness: 8
+    }, text => {
+      // Set a high depth to appear above clouds but below score, with a glow effect
+      text.setText('Keep going. Valhalla is near!').setDepth(90).setShadow(0, 0, '#0055ff', 12, true, true);
+    });
+    this.powerUpTexts = this.createTextPool({
+      fontSize: '24px',
+      color: '#ffff00',
+      stroke: '#ff0000',
+      strokeThickness: 6
+    }, text => text.setDepth(100));
+    this.bonusTexts = this.createTextPool({
+      fontSize: '28px',
+      color: '#ffff00',
+      stroke: '#000',
+      strokeThickness: 4
+    }, text => text.setDepth(20));
+    
+    // Explicitly call onScoreUpdate with the initial score
+    this.callbacks.onScoreUpdate(0);
+    
+    // Set sky color
+    this.cameras.main.setBackgroundColor('#87CEEB');
+    
+    // Create cloud group
+    this.clouds = this.add.group();
+    
+    // Create initial clouds at different depths
+    for (let i = 0; i < 15; i++) {
+      this.createCloud();
+    }
+    
+    // Create sprites for the initial platforms
+    this.syncSprites();
+    
+    // Player character setup - use hedgy1 instead of 'player'
+    this.player = this.add.sprite(this.sim.player.x, this.sim.player.y, 'hedgy1');
+    this.player.setDepth(10);
+    this.powerUpAura = this.add.circle(0, 0, 70).setStrokeStyle(4, 0xffffff, 0.8).setDepth(11).setVisible(false);
+    
+    this.createEmitters();
+    
+    // Keyboard, gamepad, touch and tilt input, as set up on the start screen
+    const controls = this.callbacks.getControls();
+    const controller = new InputController(this, controls, this.callbacks.getBindings());
+    this.controller = controller;
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => controller.destroy());
+    if (controls.scheme !== 'keyboard') {
+      this.createTouchControls(controls.scheme === 'touch');
+    }
+
+    // Move the score text creation to AFTER all other setup
+    // Score display - create this AFTER everything and set highest depth
+    this.scoreText = this.add.text(16, 16, 'Score: 0', { 
+        fontSize: '24px',
+        color: '#fff',
+        stroke: '#000',
+        strokeThickness: 3
+      })
+      .setScrollFactor(0)
+      .setDepth(100);
+    
+    // Time left on the active power-up, under the score
+    this.powerUpTimerText = this.add.text(16, 48, '', { fontSize: '18px', color: '#fff', stroke: '#000', strokeThickness: 3 })
+      .setScrollFactor(0)
+      .setDepth(100)
+      .setVisible(false);
+    this.powerUpTimerBar = this.add.rectangle(16, 74, 160, 8, 0xffffff)
+      .setOrigin(0, 0.5)
+      .setScrollFactor(0)
+      .setDepth(100)
+      .setVisible(false);
+  }
+  
+  update(time: number, delta: number) {
+    if (!this.sim || !this.recorder || !this.player || !this.controller || !this.scoreText || this.sim.isGameOver) return;
+    
+    const { input, pausePressed } = this.controller.read();
+    if (pausePressed && this.pauseRun('manual')) return;
+    
+    // Run as many fixed steps as this frame's time covers, all with this frame's input
+    const steps = this.stepper.advance(delta);
+    const events: SimEvent[] = [];
+    for (let i = 0; i < steps && !this.sim.isGameOver; i++) {
+      this.rememberPositions();
+      this.recorder.record(input);
+      events.push(...stepSimulation(this.sim, input, STEP_MS));
+    }
+    
+    // Effects first: they take over the sprites of objects the simulation just
+    // removed, which syncing would otherwise hand back to their pools
+    events.forEach(event => {
+      switch (event.type) {
+        case 'bounce':
+          this.playBounceEffect(event.platformId);
+          break;
+        case 'platformBroken':
+          this.breakPlatform(event.platformId);
+          break;
+        case 'score':
+          this.scoreText?.setText(`Score: ${event.score}`);
+          this.callbacks.onScoreUpdate(event.score);
+          break;
+        case 'milestone':
+          this.showMotivationalText();
+          break;
+        case 'powerUpCollected':
+          this.playPowerUpEffect(event.kind);
+          break;
+        case 'powerUpEnded':
+          this.endPowerUpEffect();
+          break;
+        case 'shieldAbsorbed':
+          this.playShieldEffect(event.enemyId);
+          break;
+        case 'coinCollected':
+          this.playCoinEffect();
+          break;
+        case 'miniBoost':
+          this.playMiniBoostEffect();
+          break;
+        case 'enemyStomped':
+          this.defeatEnemy(event.enemyId, event.points);
+          break;
+        case 'shot':
+          this.playShootEffect();
+          break;
+        case 'enemyShot':
+          this.defeatEnemy(event.enemyId, event.points, true);
+          break;
+        case 'enemyHit':
+          this.cameras.main.shake(300, 0.02);
+          break;
+        case 'gameOver':
+          this.gameOver();
+          break;
+      }
+    });
+    
+    // Draw the time the clock has run past the last step by interpolating toward it
+    this.syncSprites(this.sim.isGameOver ? 1 : this.stepper.alpha);
+    this.updatePowerUpTimer();
+    this.updateClouds(time, delta);
+  }
+
+  // Translucent hints for the touch areas: a steering arrow on each side when steering
+  // by touch, and the shoot and mini-boost buttons
+  createTouchControls(steering: boolean) {
+    const { width, height } = this.scale;
+    const buttonY = height - BOOST_BUTTON_MARGIN;
+    const hintStyle = { fontSize: '64px', color: '#fff', stroke: '#000', strokeThickness: 4 };
+
+    if (steering) {
+      this.add.text(60, buttonY, '◀', hintStyle).setOrigin(0.5).setAlpha(0.35).setScrollFactor(0).setDepth(100);
+      this.add.text(width - 60, buttonY, '▶', hintStyle).setOrigin(0.5).setAlpha(0.35).setScrollFactor(0).setDepth(100);
+      this.createTouchButton(buttonY, 'BOOST');
+    }
+    this.createTouchButton(height - SHOOT_BUTTON_MARGIN, 'SHOOT');
+  }
+
+  createTouchButton(y: number, label: string) {
+    const x = this.scale.width / 2;
+    this.add.circle(x, y, BOOST_BUTTON_RADIUS, 0xffffff, 0.25)
+      .setStrokeStyle(4, 0x000000, 0.35)
+      .setScrollFactor(0)
+      .setDepth(100);
+    this.add.text(x, y, label, { fontSize: '22px', color: '#fff', stroke: '#000', strokeThickness: 3 })
+      .setOrigin(0.5)
+      .setAlpha(0.6)
+      .setScrollFactor(0)
+      .setDepth(100);
+  }
+
+  // Pause the run when the pause rules allow it. Nothing moves while paused:
+  // the scene stops updating, along with its tweens and timers.
+  pauseRun(reason: PauseReason) {
+    if (!this.sim || !this.recorder || this.sim.isGameOver || this.scene.isPaused()) return false;
+
+    const ranked = this.callbacks.isRankedRun();
+    if (!canPause(reason, this.recorder.pauseCount, ranked)) return false;
+
+    this.recorder.recordPause();
+    this.scene.pause();
+    this.callbacks.onPause({ reason, pausesUsed: this.recorder.pauseCount, ranked });
+    return true;
+  }
+
+  resumeRun() {
+    if (this.scene.isPaused()) this.scene.resume();
+  }
+
+  rememberPositions() {
+    if (!this.sim) return;
+    
+    const previous = this.previous;
+    previous.playerX = this.sim.player.x;
+    previous.playerY = this.sim.player.y;
+    previous.cameraY = this.sim.cameraY;
+    this.sim.enemies.forEach(enemy => previous.enemies.set(enemy.id, enemy.x));
+    this.sim.projectiles.forEach(projectile => previous.projectiles.set(projectile.id, projectile.y));
+    this.sim.coins.forEach(coin => {
+      const position = previous.coins.get(coin.id);
+      if (position) {
+        position.x = coin.x;
+        position.y = coin.y;
+      } else {
+        previous.coins.set(coin.id, { x: coin.x, y: coin.y });
+      }
+    });
+    this.sim.platforms.forEach(platform => {
+      const position = previous.platforms.get(platform.id);
+      if (position) {
+        position.x = platform.x;
+        position.y = platform.y;
+      } else {
+        previous.platforms.set(platform.id, { x: platform.x, y: platform.y });
+      }
+    });
+  }
+
+  // Create, move and remove sprites so they mirror the simulation state, drawn
+  // alpha of the way from the previous step to the latest one
+  syncSprites(alpha = 1) {
+    if (!this.sim) return;
+    
+    const lerp = (from: number, to: number) => from + (to - from) * alpha;
+    
+    const time = this.sim.time;
+    const seenPlatforms = new Set<number>();
+    this.sim.platforms.forEach(platform => {
+      seenPlatforms.add(platform.id);
+      let sprite = this.platformSprites.get(platform.id);
+      if (!sprite && this.platformPool) {
+        sprite = this.platformPool.acquire();
+        sprite.setData('platformId', platform.id);
+        sprite.setData('type', platform.type);
+        sprite.setTexture(PLATFORM_BEHAVIORS[platform.type].texture);
+        sprite.setScale(0.5, 0.5);
+        this.applyPlatformTint(sprite);
+        this.platformSprites.set(platform.id, sprite);
+      }
+      if (!sprite) return;
+      sprite.setAlpha(PLATFORM_BEHAVIORS[platform.type].alpha?.(platform, time) ?? 1);
+      const previous = this.previous.platforms.get(platform.id);
+      sprite.setPosition(
+        previous ? lerp(previous.x, platform.x) : platform.x,
+        previous ? lerp(previous.y, platform.y) : platform.y
+      );
+    });
+    this.platformSprites.forEach((sprite, id) => {
+      if (!seenPlatforms.has(id)) {
+        this.platformPool?.release(sprite);
+        this.platformSprites.delete(id);
+        this.previous.platforms.delete(id);
+      }
+    });
+    
+    const seenEnemies = new Set<number>();
+    this.sim.enemies.forEach(enemy => {
+      seenEnemies.add(enemy.id);
+      let sprite = this.enemySprites.get(enemy.id);
+      if (!sprite && this.enemyPool) {
+        sprite = this.enemyPool.acquire();
+        this.showEnemy(sprite, enemy.kind);
+        this.enemySprites.set(enemy.id, sprite);
+      }
+      if (!sprite) return;
+      const previousX = this.previous.enemies.get(enemy.id);
+      const x = previousX === undefined ? enemy.x : lerp(previousX, enemy.x);
+      if (enemy.kind === 'blackHole') {
+        sprite.setPosition(x, enemy.y).setRotation(time / 300);
+      } else {
+        // Hovering is purely visual, the hitbox stays put
+        sprite.setPosition(x, enemy.y + Math.sin(time / 250 + enemy.id) * 6);
+        sprite.setFlipX(enemy.direction < 0);
+      }
+    });
+    this.enemySprites.forEach((sprite, id) => {
+      if (!seenEnemies.has(id)) {
+        this.enemyPool?.release(sprite);
+        this.enemySprites.delete(id);
+        this.previous.enemies.delete(id);
+      }
+    });
+    
+    const seenProjectiles = new Set<number>();
+    this.sim.projectiles.forEach(projectile => {
+      seenProjectiles.add(projectile.id);
+      let sprite = this.projectileSprites.get(projectile.id);
+      if (!sprite && this.projectilePool) {
+        sprite = this.projectilePool.acquire();
+        this.projectileSprites.set(projectile.id, sprite);
+      }
+      const previousY = this.previous.projectiles.get(projectile.id);
+      sprite?.setPosition(projectile.x, previousY === undefined ? projectile.y : lerp(previousY, projectile.y));
+    });
+    this.projectileSprites.forEach((sprite, id) => {
+      if (!seenProjectiles.has(id)) {
+        this.projectilePool?.release(sprite);
+        this.projectileSprites.delete(id);
+        this.previous.projectiles.delete(id);
+      }
+    });
+    
+    const seenPowerUps = new Set<number>();
+    this.sim.powerUpItems.forEach(item => {
+      seenPowerUps.add(item.id);
+      let sprite = this.powerUpSprites.get(item.id);
+      if (!sprite && this.powerUpPool) {
+        sprite = this.powerUpPool.acquire();
+        const { texture, tint } = POWER_UPS[item.kind];
+        sprite.setTexture(texture).setDisplaySize(POWER_UP_ITEM_WIDTH, POWER_UP_ITEM_HEIGHT);
+        if (tint === null) {
+          sprite.clearTint();
+        } else {
+          sprite.setTint(tint);
+        }
+        this.powerUpSprites.set(item.id, sprite);
+      }
+      if (!sprite) return;
+      // The floating offset is purely visual
+      sprite.setPosition(item.x, item.y + (sprite.getData('float') || 0));
+    });
+    this.powerUpSprites.forEach((sprite, id) => {
+      if (!seenPowerUps.has(id)) {
+        this.powerUpPool?.release(sprite);
+        this.powerUpSprites.delete(id);
+      }
+    });
+    
+    const seenCoins = new Set<number>();
+    this.sim.coins.forEach(coin => {
+      seenCoins.add(coin.id);
+      let sprite = this.coinSprites.get(coin.id);
+      if (!sprite && this.coinPool) {
+        sprite = this.coinPool.acquire();
+        this.coinSprites.set(coin.id, sprite);
+      }
+      const previous = this.previous.coins.get(coin.id);
+      // Spinning is purely visual: squeeze the coin's width as it turns
+      sprite?.setPosition(previous ? lerp(previous.x, coin.x) : coin.x, previous ? lerp(previous.y, coin.y) : coin.y)
+        .setScale(Math.abs(Math.cos(time / 200 + coin.id)), 1);
+    });
+    this.coinSprites.forEach((sprite, id) => {
+      if (!seenCoins.has(id)) {
+        this.coinPool?.release(sprite);
+        this.coinSprites.delete(id);
+        this.previous.coins.delete(id);
+      }
+    });
+    
+    if (this.player) {
+      this.player.setPosition(lerp(this.previous.playerX, this.sim.player.x), lerp(this.previous.playerY, this.sim.player.y));
+      this.player.setFlipX(this.sim.player.facingLeft); // Flip sprite when moving left
+      
+      const powerUp = this.sim.activePowerUp;
+      this.powerUpAura?.setVisible(powerUp !== null).setPosition(this.player.x, this.player.y);
+      if (powerUp) this.powerUpAura?.setStrokeStyle(4, POWER_UPS[powerUp.kind].tint ?? 0xffff00, 0.8);
+    }
+    
+    this.cameras.main.setScroll(0, lerp(this.previous.cameraY, this.sim.cameraY));
+  }
+
+  // Create a platform sprite for the pool
+  createPlatformSprite() {
+    const platform = this.add.image(0, 0, 'platform');
+    
+    // Adjust scale based on the new image dimensions
+    platform.setScale(0.5, 0.5); // Adjust scale to fit your custom platform image
+    platform.setDepth(5);
+    
+    return platform;
+  }
+
+  // Tint a platform sprite for the type of platform it currently shows
+  applyPlatformTint(platform: Phaser.GameObjects.Image) {
+    const type: PlatformType = platform.getData('type');
+    const tint = PLATFORM_BEHAVIORS[type].tint;
+    if (tint === null) {
+      platform.clearTint();
+    } else {
+      platform.setTint(tint);
+    }
+  }
+
+  // Create a power-up item sprite for the pool, with its glow, float and spin effects.
+  // The effects loop forever and are paused while the sprite waits in the pool.
+  createPowerUpSprite() {
+    const boostItem = this.add.image(0, 0, 'boost-item');
+    boostItem.setDepth(6);
+    boostItem.setData('float', 0);
+    
+    // Add a glow effect
+    const glow = this.tweens.add({
+      targets: boostItem,
+      alpha: { from: 0.7, to: 1 },
+      duration: 800,
+      yoyo: true,
+      repeat: -1,
+      persist: true
+    });
+    
+    // Add a floating effect
+    const float = this.tweens.addCounter({
+      from: 0,
+      to: 20,
+      duration: 1500,
+      yoyo: true,
+      repeat: -1,
+      persist: true,
+      onUpdate: tween => boostItem.setData('float', tween.getValue())
+    });
+    
+    // Add a gentle rotation effect
+    const spin = this.tweens.add({
+      targets: boostItem,
+      angle: 360,
+      duration: 8000, // Slower rotation
+      repeat: -1,
+      ease: 'Linear',
+      persist: true
+    });
+    
+    boostItem.setData('tweens', [glow, float, spin]);
+    return boostItem;
+  }
+
+  // Clouds get their parallax from scroll factors; here they only drift sideways
+  // and wrap back above the view once the camera has left them behind
+  updateClouds(time: number, delta: number) {
+    if (!this.clouds) return;
+    
+    const scrollY = this.cameras.main.scrollY;
+    const viewHeight = this.scale.height;
+    const drift = delta / STEP_MS; // The drift speeds below are per 60 Hz frame
+    
+    this.clouds.getChildren().forEach((child: any) => {
+      const cloud = child as Phaser.GameObjects.Image;
+      const depth = cloud.getData('depth') || 1;
+      
+      // Add subtle horizontal drift based on depth
+      // This creates a more dynamic feel
+      if (depth === 0) {
+        // Far clouds drift very slowly
+        cloud.x += Math.sin(time / 5000) * 0.1 * drift;
+      } else if (depth === 1) {
+        // Middle clouds drift a bit more
+        cloud.x += Math.sin(time / 3000 + cloud.y / 100) * 0.2 * drift;
+      } else {
+        // Near clouds drift the most
+        cloud.x += Math.sin(time / 2000 + cloud.y / 50) * 0.3 * drift;
+      }
+      
+      // Recycle clouds that moved off the bottom of the view
+      const parallaxOffset = scrollY * cloud.scrollFactorY;
+      if (cloud.y - parallaxOffset > viewHeight + 100) {
+        cloud.y = parallaxOffset - 100;
+        cloud.x = Phaser.Math.Between(0, 800);
+      }
+      
+      // Also recycle clouds that drift too far horizontally
+      if (cloud.x < -100 || cloud.x > 900) {
+        cloud.x = Phaser.Math.Between(100, 700);
+      }
+    });
+  }
+
+  // Swap to the bounce pose and flash the platform that was hit
+  playBounceEffect(platformId: number) {
+    const p = this.player;
+    if (p) {
+      // Switch to hedgy2 sprite for bounce animation
+      p.setTexture('hedgy2');
+      
+      // Switch back to hedgy1 after a short delay
+      this.time.delayedCall(200, () => {
+        if (p.active) { // Check if sprite still exists
+          p.setTexture('hedgy1');
+        }
+      });
+    }
+    
+    // Visual feedback on platform
+    const plat = this.platformSprites.get(platformId);
+    if (plat) {
+      plat.setTintFill(0x00FF00);
+      this.time.delayedCall(100, () => {
+        // The sprite may have been recycled for another platform by now
+        if (plat.active && plat.getData('platformId') === platformId) this.applyPlatformTint(plat);
+      });
+      
+      // Springs squash down and snap back
+      if (plat.getData('type') === 'spring') {
+        this.tweens.add({ targets: plat, scaleY: 0.3, duration: 80, yoyo: true });
+      }
+    }
+  }
+
+  // The simulation already removed the platform; let its sprite fall away
+  breakPlatform(platformId: number) {
+    const plat = this.platformSprites.get(platformId);
+    if (!plat) return;
+    
+    this.platformSprites.delete(platformId);
+    this.tweens.add({
+      targets: plat,
+      alpha: 0,
+      y: plat.y + 20, 
+      duration: 200,
+      onComplete: () => this.platformPool?.release(plat)
+    });
+  }
+
+  // Black holes, shots, coins and power-up badges are drawn rather than loaded.
+  // Textures outlive the scene, so only once.
+  createDrawnTextures() {
+    if (this.textures.exists('black-hole')) return;
+    
+    // A dark swirl with a purple rim
+    const size = ENEMY_KINDS.blackHole.width;
+    const graphics = this.make.graphics({}, false);
+    graphics.fillStyle(0x6a0dad, 0.6);
+    graphics.fillCircle(size / 2, size / 2, size / 2);
+    graphics.fillStyle(0x000000, 1);
+    graphics.fillCircle(size / 2, size / 2, size * 0.4);
+    graphics.lineStyle(3, 0x9b30ff, 1);
+    graphics.beginPath();
+    graphics.arc(size / 2, size / 2, size * 0.25, 0, Math.PI);
+    graphics.strokePath();
+    graphics.generateTexture('black-hole', size, size);
+    
+    // A glowing yellow pellet
+    graphics.clear();
+    graphics.fillStyle(0xffaa00, 0.5);
+    graphics.fillCircle(PROJECTILE_SIZE / 2, PROJECTILE_SIZE / 2, PROJECTILE_SIZE / 2);
+    graphics.fillStyle(0xffff66, 1);
+    graphics.fillCircle(PROJECTILE_SIZE / 2, PROJECTILE_SIZE / 2, PROJECTILE_SIZE / 4);
+    graphics.generateTexture('projectile', PROJECTILE_SIZE, PROJECTILE_SIZE);
+    
+    // A gold coin
+    graphics.clear();
+    graphics.fillStyle(0xffcc00, 1);
+    graphics.fillCircle(COIN_SIZE / 2, COIN_SIZE / 2, COIN_SIZE / 2);
+    graphics.lineStyle(3, 0xcc8800, 1);
+    graphics.strokeCircle(COIN_SIZE / 2, COIN_SIZE / 2, COIN_SIZE / 2 - 4);
+    graphics.generateTexture('coin', COIN_SIZE, COIN_SIZE);
+    
+    // A white badge, tinted per power-up
+    graphics.clear();
+    graphics.fillStyle(0xffffff, 1);
+    graphics.fillEllipse(POWER_UP_ITEM_WIDTH / 2, POWER_UP_ITEM_HEIGHT / 2, POWER_UP_ITEM_WIDTH, POWER_UP_ITEM_HEIGHT);
+    graphics.lineStyle(4, 0x333333, 0.6);
+    graphics.strokeEllipse(POWER_UP_ITEM_WIDTH / 2, POWER_UP_ITEM_HEIGHT / 2, POWER_UP_ITEM_WIDTH - 8, POWER_UP_ITEM_HEIGHT - 8);
+    graphics.generateTexture('power-up', POWER_UP_ITEM_WIDTH, POWER_UP_ITEM_HEIGHT);
+    graphics.destroy();
+  }
+
+  // Dress a pooled enemy sprite up as the given kind, sized to its hitbox
+  showEnemy(sprite: Phaser.GameObjects.Image, kind: EnemyKind) {
+    const { width, height } = ENEMY_KINDS[kind];
+    sprite.setTexture(kind === 'blackHole' ? 'black-hole' : 'monster');
+    sprite.setDisplaySize(width, height).setAlpha(1).setRotation(0).setFlipX(false);
+    if (kind === 'patrol') {
+      sprite.setTint(0xff4444);
+    } else {
+      sprite.clearTint();
+    }
+  }
+
+  // The simulation already removed the enemy, stomped or shot; squash it and show the bonus
+  defeatEnemy(enemyId: number, points: number, shot = false) {
+    const sprite = this.enemySprites.get(enemyId);
+    if (!sprite) return;
+    
+    if (shot) this.hitEmitter?.emitParticleAt(sprite.x, sprite.y, 12);
+    this.enemySprites.delete(enemyId);
+    this.previous.enemies.delete(enemyId);
+    this.tweens.add({
+      targets: sprite,
+      scaleY: 0,
+      alpha: 0,
+      y: sprite.y + 20,
+      duration: 250,
+      onComplete: () => this.enemyPool?.release(sprite)
+    });
+    
+    if (!this.bonusTexts) return;
+    const bonus = this.bonusTexts.acquire();
+    bonus.setText(`+${points}`).setPosition(sprite.x, sprite.y - 40).setAlpha(1);
+    this.tweens.add({
+      targets: bonus,
+      y: bonus.y - 60,
+      alpha: 0,
+      duration: 800,
+      onComplete: () => this.bonusTexts?.release(bonus)
+    });
+  }
+
+  // Game over function
+  gameOver() {
+    this.callbacks.onGameOver();
+    
+    // Hand the recorded run over so the score can be verified by replaying it
+    if (this.sim && this.recorder) {
+      this.callbacks.onRunComplete({ score: this.sim.score, log: this.recorder.toLog() });
+    }
+    
+    // Player falls off the bottom
+    if (this.player) {
+      this.player.setTint(0xff0000);
+      this.tweens.add({
+        targets: this.player,
+        y: this.player.y + 500, // Fall faster for effect
+        duration: 1000,
+        ease: 'Quad.easeIn'
+      });
+    }
+    
+    // Game over text - moved higher up
+    this.add.text(
+      this.cameras.main.width / 2,
+      this.cameras.main.height / 2 - 100, // Move up by 100px
+      'Game Over',
+      { 
+        fontSize: '40px',
+        color: '#fff',
+        stroke: '#000',
+        strokeThickness: 6
+      }
+    )
+    .setOrigin(0.5)
+    .setScrollFactor(0)
+    .setDepth(100);
+    
+    // Show score - also moved higher
+    this.add.text(
+      this.cameras.main.width / 2,
+      this.cameras.main.height / 2 - 50, // Move up by 50px
+      `Score: ${this.sim?.score ?? 0}`,
+      { 
+        fontSize: '30px',
+        color: '#fff',
+        stroke: '#000',
+        strokeThickness: 4
+      }
+    )
+    .setOrigin(0.5)
+    .setScrollFactor(0)
+    .setDepth(100);
+  }
+
+  // Add a method to create clouds
+  createCloud() {
+    if (!this.clouds) return;
+    
+    // Random position
+    const x = Phaser.Math.Between(0, 800);
+    const y = Phaser.Math.Between(0, 800);
+    
+    // Randomly choose between cloud1, cloud2, and cloud3
+    const cloudIndex = Math.floor(Math.random() * 3) + 1;
+    const cloudKey = `cloud${cloudIndex}`;
+    
+    // Create cloud with the selected image
+    const cloud = this.add.image(x, y, cloudKey);
+    
+    // Create three distinct depth layers instead of just two
+    // This will give us more parallax variation
+    let scale, depth;
+    const layerRnd = Math.random();
+    
+    if (layerRnd < 0.33) {
+      // Far background layer - small clouds
+      scale = Phaser.Math.FloatBetween(0.2, 0.5);
+      depth = 0;
+      cloud.setAlpha(Phaser.Math.FloatBetween(0.2, 0.4)); // More transparent
+      cloud.setTint(0xccccff); // Slight blue tint for distant clouds
+    } else if (layerRnd < 0.66) {
+      // Middle layer
+      scale = Phaser.Math.FloatBetween(0.5, 0.9);
+      depth = 1;
+      cloud.setAlpha(Phaser.Math.FloatBetween(0.4, 0.7));
+      cloud.setTint(0xddddff); // Very slight blue tint
+    } else {
+      // Foreground layer - larger clouds
+      scale = Phaser.Math.FloatBetween(0.9, 1.5);
+      depth = 2;
+      cloud.setAlpha(Phaser.Math.FloatBetween(0.7, 0.9));
+    }
+    
+    cloud.setScale(scale);
+    
+    // Randomly flip horizontally for more variety (50% chance)
+    if (Math.random() > 0.5) {
+      cloud.setFlipX(true);
+    }
+    
+    // Set depth for rendering order
+    cloud.setDepth(depth);
+    cloud.setData('depth', depth);
+    
+    // Parallax: far clouds scroll slowest, near clouds faster than the platforms
+    cloud.setScrollFactor(1, [0.3, 0.8, 1.8][depth]);
+    
+    // Add to group
+    this.clouds.add(cloud);
+    
+    return cloud;
+  }
+
+  // Update the motivational text to appear from above
+  showMotivationalText() {
+    if (!this.motivationalTexts) return;
+    
+    try {
+      const motivationalText = this.motivationalTexts.acquire();
+      motivationalText.setFill('#ff00ff'); // Bright pink color instead of gradient
+      motivationalText.x = 400;
+      
+      // Store the text's initial world position, above the visible area
+      const initialWorldY = this.cameras.main.scrollY - 200;
+      motivationalText.y = initialWorldY;
+      
+      // Make the text slowly fade in
+      motivationalText.setAlpha(0);
+      this.tweens.add({
+        targets: motivationalText,
+        alpha: 1,
+        duration: 1000,
+        ease: 'Sine.easeIn'
+      });
+      
+      // Simple color cycling without using context
+      let colorIndex = 0;
+      const colors = [
+        0xff0099, // Pink
+        0x493bc4, // Purple
+        0x0033aa, // Dark blue
+        0x00c3ff, // Cyan
+        0x00ffa3, // Teal
+        0xffea00  // Yellow
+      ];
+      
+      const colorTicker = this.time.addEvent({
+        delay: 100,
+        callback: () => {
+          colorIndex = (colorIndex + 1) % colors.length;
+          motivationalText.setFill('#' + colors[colorIndex].toString(16).padStart(6, '0'));
+        },
+        callbackScope: this,
+        loop: true
+      });
+      
+      // Add the text to a custom update function. The text goes back to the
+      // pool when it is done, so track that here rather than through the text.
+      let fading = false;
+      let done = false;
+      const updateText = (time: number, delta: number) => {
+        if (done) {
+          this.events.off('update', updateText);
+          return;
+        }
+        
+        const cameraY = this.cameras.main.scrollY;
+        const targetY = initialWorldY + cameraY * 0.2;
+        
+        // Ease 5% of the way per 60 Hz frame, whatever the actual frame rate
+        motivationalText.y += (targetY - motivationalText.y) * (1 - Math.pow(0.95, delta / STEP_MS));
+        
+        if (motivationalText.y > cameraY + 900 && !fading) {
+          fading = true;
+          this.tweens.add({
+            targets: motivationalText,
+            alpha: 0,
+            duration: 1000,
+            onComplete: () => {
+              done = true;
+              colorTicker.destroy();
+              this.motivationalTexts?.release(motivationalText);
+            }
+          });
+        }
+      };
+      
+      this.events.on('update', updateText);
+    } catch (error) {
+      console.error("Error in showMotivationalText:", error);
+    }
+  }
+
+  // Power-up visuals - the simulation already applied the power-up's physics
+  playPowerUpEffect(kind: PowerUpKind) {
+    const p = this.player;
+    if (!p || !this.powerUpTexts) return;
+    const powerUp = POWER_UPS[kind];
+    
+    this.cameras.main.shake(500, 0.02);
+    
+    // Rapid flashing
+    this.tweens.add({
+      targets: p,
+      alpha: 0.2,
+      duration: 50,
+      yoyo: true,
+      repeat: 10
+    });
+    
+    // Trail of particles under the player, tinted like the power-up
+    if (powerUp.trail) {
+      this.boostTrail?.setParticleTint(powerUp.tint ?? 0xffffff).start();
+    }
+    
+    // Show the power-up's name over the player until it ends
+    const text = this.powerUpTexts.acquire();
+    text.setText(powerUp.label).setPosition(p.x, p.y - 50);
+    const follow = () => {
+      if (p.active && text.active) text.setPosition(p.x, p.y - 50);
+    };
+    this.events.on('update', follow);
+    this.powerUpEffect = { text, follow };
+  }
+  
+  endPowerUpEffect() {
+    this.boostTrail?.stop();
+    if (!this.powerUpEffect) return;
+    
+    this.events.off('update', this.powerUpEffect.follow, undefined, false);
+    this.powerUpTexts?.release(this.powerUpEffect.text);
+    this.powerUpEffect = undefined;
+  }
+  
+  // The shield bursts and takes the enemy with it
+  playShieldEffect(enemyId: number) {
+    if (this.player) this.hitEmitter?.emitParticleAt(this.player.x, this.player.y, 16);
+    this.cameras.main.shake(150, 0.01);
+    this.defeatEnemy(enemyId, 0);
+  }
+  
+  playCoinEffect() {
+    if (this.player) this.hitEmitter?.emitParticleAt(this.player.x, this.player.y - 40, 4);
+  }
+  
+  // Label and shrinking bar for the time the active power-up has left
+  updatePowerUpTimer() {
+    const active = this.sim?.activePowerUp;
+    this.powerUpTimerText?.setVisible(!!active);
+    this.powerUpTimerBar?.setVisible(!!active);
+    if (!this.sim || !active) return;
+    
+    const powerUp = POWER_UPS[active.kind];
+    const left = Math.max(0, active.endsAt - this.sim.time);
+    this.powerUpTimerText?.setText(`${powerUp.label} ${(left / 1000).toFixed(1)}s`);
+    this.powerUpTimerBar?.setScale(left / powerUp.duration, 1).setFillStyle(powerUp.tint ?? 0xffff00);
+  }
+
+  // Mini-boost visuals - the simulation handles the kick and its cooldown
+  playMiniBoostEffect() {
+    if (!this.player) return;
+    
+    // Emit fart particles in a burst
+    this.fartEmitter?.emitParticleAt(this.player.x, this.player.y + 30, 10);
+    
+    // Add a small camera shake
+    this.cameras.main.shake(100, 0.01);
+    
+    // Play a quick squish animation on the player
+    this.tweens.add({
+      targets: this.player,
+      scaleX: 1.2,
+      scaleY: 0.8,
+      duration: 100,
+      yoyo: true,
+      ease: 'Sine.easeOut'
+    });
+  }
+
+  // Shooting pose: upright, stretched up into the shot with a warm flash
+  playShootEffect() {
+    const p = this.player;
+    if (!p) return;
+    
+    p.setTexture('hedgy1').setTint(SHOOT_TINT);
+    this.tweens.add({
+      targets: p,
+      scaleX: 0.85,
+      scaleY: 1.2,
+      duration: 75,
+      yoyo: true,
+      ease: 'Sine.easeOut'
+    });
+    this.time.delayedCall(150, () => {
+      // Leave any tint set since, like the game over one, alone
+      if (p.active && p.tintTopLeft === SHOOT_TINT) p.clearTint();
+    });
+  }
+
+  // Particle emitters live for the whole run and recycle their own particles
+  createEmitters() {
+    if (!this.player) return;
+    
+    // Paper rolls falling away under the player during the big boost
+    this.boostTrail = this.add.particles(0, 0, 'boost-item', {
+      frequency: 30,
+      lifespan: { min: 500, max: 800 },
+      speedX: { min: -40, max: 40 },
+      speedY: { min: 70, max: 140 }, // Move down
+      scale: { start: 0.3, end: 0 },
+      alpha: { start: 0.8, end: 0 },
+      rotate: { min: 0, max: 360 },
+      emitting: false
+    });
+    this.boostTrail.startFollow(this.player, 0, 70);
+    this.boostTrail.setDepth(9);
+    
+    // Fart animation for the mini-boost
+    this.fartEmitter = this.add.particles(0, 0, 'fart', {
+      speed: { min: 50, max: 150 },
+      angle: { min: 80, max: 100 }, // Mostly downward
+      scale: { start: 0.2, end: 0 },
+      lifespan: 500,
+      quantity: 5,
+      blendMode: 'ADD',
+      emitting: false
+    });
+    
+    // Sparks where a shot takes out an enemy
+    this.hitEmitter = this.add.particles(0, 0, 'projectile', {
+      speed: { min: 80, max: 220 },
+      scale: { start: 1, end: 0 },
+      lifespan: 400,
+      blendMode: 'ADD',
+      emitting: false
+    });
+    this.hitEmitter.setDepth(9);
+  }
+
+  // Pool of texts that share one look, so only their content changes on reuse
+  createTextPool(style: Phaser.Types.GameObjects.Text.TextStyle, setup: (text: Phaser.GameObjects.Text) => void) {
+    return new ObjectPool(() => {
+      const text = this.add.text(0, 0, '', style).setOrigin(0.5);
+      setup(text);
+      return text;
+    }, {
+      onRelease: text => this.tweens.killTweensOf(text)
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { STEP_MS } from './constants';
+import { FixedStepper, MAX_FRAME_MS } from './FixedStepper';
+
+// Steps run over one simulated second of frames at a refresh rate
+const stepsPerSecond = (hz: number) => {
+  const stepper = new FixedStepper();
+  let steps = 0;
+  for (let frame = 0; frame < hz; frame++) steps += stepper.advance(1000 / hz);
+  return steps;
+};
+
+describe('FixedStepper', () => {
+  it('runs the same number of steps at any refresh rate', () => {
+    const expected = Math.round(1000 / STEP_MS);
+    [30, 60, 75, 120, 144, 240].forEach(hz => {
+      expect(Math.abs(stepsPerSecond(hz) - expected)).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('carries the remainder over to the next frame', () => {
+    const stepper = new FixedStepper(10);
+    expect(stepper.advance(4)).toBe(0);
+    expect(stepper.alpha).toBeCloseTo(0.4);
+    expect(stepper.advance(7)).toBe(1);
+    expect(stepper.alpha).toBeCloseTo(0.1);
+  });
+
+  it('catches up after a dropped frame', () => {
+    const stepper = new FixedStepper(10);
+    expect(stepper.advance(35)).toBe(3);
+  });
+
+  it('limits how far one long frame advances the game', () => {
+    const stepper = new FixedStepper(10);
+    expect(stepper.advance(10000)).toBe(MAX_FRAME_MS / 10);
+    expect(stepper.advance(-5)).toBe(0);
+  });
+});
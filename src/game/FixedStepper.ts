@@ -0,0 +1,32 @@
+import { STEP_MS } from './constants';
+
+// Turns variable display frame times into a whole number of fixed simulation
+// steps. The time left over is carried to the next frame and tells the renderer
+// how far between the last two steps to draw.
+
+// A frame longer than this (a hitch or a stalled tab) only advances the game this
+// far, so the game slows down instead of running hundreds of steps to catch up
+export const MAX_FRAME_MS = 250;
+
+export class FixedStepper {
+  private accumulator = 0;
+
+  constructor(private stepMs = STEP_MS, private maxFrameMs = MAX_FRAME_MS) {}
+
+  // Number of steps to run for a frame that took delta ms
+  advance(delta: number) {
+    this.accumulator += Math.min(Math.max(delta, 0), this.maxFrameMs);
+    const steps = Math.floor(this.accumulator / this.stepMs);
+    this.accumulator -= steps * this.stepMs;
+    return steps;
+  }
+
+  // Fraction of a step since the last one, from 0 up to (not including) 1
+  get alpha() {
+    return this.accumulator / this.stepMs;
+  }
+
+  reset() {
+    this.accumulator = 0;
+  }
+}
@@ -0,0 +1,79 @@
+import Phaser from 'phaser';
+import { ControlSettings, combineInputs, tiltInput, touchInput } from './controls';
+import { watchDeviceTilt } from './deviceTilt';
+import { GamepadState, InputBindings, actionsToFrameInput, readActions, readSteer } from './input';
+import { FrameInput } from './types';
+
+// Gathers keyboard, gamepad, touch and tilt input for one run of the scene and
+// turns it into the frame input the simulation records.
+export class InputController {
+  private pressedKeys = new Set<string>();
+  private tilt: number | null = null;
+  private pauseHeld = false;
+  private cleanups: (() => void)[] = [];
+
+  constructor(private scene: Phaser.Scene, private controls: ControlSettings, private bindings: InputBindings) {
+    const boundKeys = new Set(Object.values(bindings.keys).flat());
+
+    // Listen on the window directly so bound keys can be kept from scrolling the page
+    const handleKey = (event: KeyboardEvent) => {
+      // Typing in the tournament panel is not steering
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+      if (!boundKeys.has(event.code)) return;
+      event.preventDefault();
+      if (event.type === 'keydown') {
+        this.pressedKeys.add(event.code);
+      } else {
+        this.pressedKeys.delete(event.code);
+      }
+    };
+    // Key-up events are lost while the window is in the background
+    const releaseAll = () => this.pressedKeys.clear();
+
+    window.addEventListener('keydown', handleKey);
+    window.addEventListener('keyup', handleKey);
+    window.addEventListener('blur', releaseAll);
+    this.cleanups.push(() => {
+      window.removeEventListener('keydown', handleKey);
+      window.removeEventListener('keyup', handleKey);
+      window.removeEventListener('blur', releaseAll);
+    });
+
+    if (controls.scheme === 'tilt') {
+      this.cleanups.push(watchDeviceTilt(tilt => { this.tilt = tilt; }));
+    }
+  }
+
+  private readGamepad(): GamepadState | null {
+    const pad = this.scene.input.gamepad?.pad1;
+    if (!pad || !pad.connected) return null;
+    return {
+      buttons: pad.buttons.map(button => button.pressed),
+      stickX: pad.leftStick.x
+    };
+  }
+
+  // This frame's input, and whether pause was pressed since the last frame
+  read(): { input: FrameInput; pausePressed: boolean } {
+    const gamepad = this.readGamepad();
+    const actions = readActions(this.pressedKeys, gamepad, this.bindings);
+    const pausePressed = actions.pause && !this.pauseHeld;
+    this.pauseHeld = actions.pause;
+
+    const { width, height } = this.scene.scale;
+    const touches = this.scene.input.manager.pointers.filter(pointer => pointer.isDown);
+    const input = combineInputs(
+      actionsToFrameInput(actions, readSteer(this.pressedKeys, gamepad, this.bindings)),
+      touchInput(touches, { width, height }, this.controls.scheme),
+      tiltInput(this.tilt, this.controls)
+    );
+
+    return { input, pausePressed };
+  }
+
+  destroy() {
+    this.cleanups.forEach(cleanup => cleanup());
+    this.cleanups = [];
+    this.pressedKeys.clear();
+  }
+}
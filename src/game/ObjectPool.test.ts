@@ -0,0 +1,60 @@
+import { ObjectPool, Poolable } from './ObjectPool';
+
+class FakeObject implements Poolable {
+  active = true;
+  visible = true;
+  setActive(value: boolean) { this.active = value; }
+  setVisible(value: boolean) { this.visible = value; }
+}
+
+describe('ObjectPool', () => {
+  it('reuses released objects instead of creating new ones', () => {
+    const create = jest.fn(() => new FakeObject());
+    const pool = new ObjectPool(create);
+
+    const first = pool.acquire();
+    pool.release(first);
+    expect(first.active).toBe(false);
+    expect(first.visible).toBe(false);
+
+    const second = pool.acquire();
+    expect(second).toBe(first);
+    expect(second.active).toBe(true);
+    expect(second.visible).toBe(true);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('only creates objects when none are free', () => {
+    const pool = new ObjectPool(() => new FakeObject());
+    const objects = [pool.acquire(), pool.acquire(), pool.acquire()];
+    objects.forEach(object => pool.release(object));
+    expect(pool.size).toBe(3);
+    expect(pool.available).toBe(3);
+
+    pool.acquire();
+    expect(pool.size).toBe(3);
+    expect(pool.available).toBe(2);
+  });
+
+  it('ignores releasing an object twice', () => {
+    const onRelease = jest.fn();
+    const pool = new ObjectPool(() => new FakeObject(), { onRelease });
+    const object = pool.acquire();
+    pool.release(object);
+    pool.release(object);
+
+    expect(onRelease).toHaveBeenCalledTimes(1);
+    expect(pool.available).toBe(1);
+  });
+
+  it('runs the hooks when objects change hands', () => {
+    const onAcquire = jest.fn();
+    const onRelease = jest.fn();
+    const pool = new ObjectPool(() => new FakeObject(), { onAcquire, onRelease });
+
+    const object = pool.acquire();
+    expect(onAcquire).toHaveBeenCalledWith(object);
+    pool.release(object);
+    expect(onRelease).toHaveBeenCalledWith(object);
+  });
+});
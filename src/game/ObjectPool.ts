@@ -0,0 +1,50 @@
+// Recycles game objects instead of destroying and recreating them, so long runs
+// don't keep feeding the garbage collector. Released objects are hidden and
+// inactive until they are handed out again.
+
+export interface Poolable {
+  active: boolean;
+  setActive(value: boolean): unknown;
+  setVisible(value: boolean): unknown;
+}
+
+export class ObjectPool<T extends Poolable> {
+  private free: T[] = [];
+  private created = 0;
+
+  constructor(
+    private create: () => T,
+    private hooks: { onAcquire?: (item: T) => void; onRelease?: (item: T) => void } = {}
+  ) {}
+
+  acquire(): T {
+    const item = this.free.pop() ?? this.createItem();
+    item.setActive(true);
+    item.setVisible(true);
+    this.hooks.onAcquire?.(item);
+    return item;
+  }
+
+  // Releasing an object that is already in the pool does nothing
+  release(item: T) {
+    if (!item.active) return;
+    this.hooks.onRelease?.(item);
+    item.setActive(false);
+    item.setVisible(false);
+    this.free.push(item);
+  }
+
+  // Objects created so far, in use or not
+  get size() {
+    return this.created;
+  }
+
+  get available() {
+    return this.free.length;
+  }
+
+  private createItem() {
+    this.created++;
+    return this.create();
+  }
+}
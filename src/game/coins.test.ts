@@ -0,0 +1,41 @@
+import { COIN_POINTS, MAGNET_SPEED, placeCoins, updateCoins } from './coins';
+import { createSimulation } from './simulation';
+import { SimEvent } from './types';
+
+describe('coins', () => {
+  it('places coins above some platforms', () => {
+    const state = createSimulation(1);
+    state.coins = [];
+    placeCoins(state, state.platforms);
+    expect(state.coins.length).toBeGreaterThan(0);
+    expect(state.coins.length).toBeLessThan(state.platforms.length);
+    state.coins.forEach(coin => {
+      expect(state.platforms.some(platform => platform.x === coin.x && platform.y > coin.y)).toBe(true);
+    });
+  });
+
+  it('collects coins the player touches for bonus points', () => {
+    const state = createSimulation(1);
+    state.coins = [{ id: 80, x: state.player.x, y: state.player.y }, { id: 81, x: 0, y: 0 }];
+
+    const events: SimEvent[] = [];
+    updateCoins(state, 0.1, events);
+    expect(events).toEqual([{ type: 'coinCollected', coinId: 80, points: COIN_POINTS }]);
+    expect(state.coins.map(coin => coin.id)).toEqual([81]);
+    expect(state.bonusScore).toBe(COIN_POINTS);
+  });
+
+  it('pulls nearby coins toward the player with a magnet', () => {
+    const state = createSimulation(1);
+    const { x, y } = state.player;
+    state.coins = [{ id: 80, x: x + 200, y }, { id: 81, x: x + 350, y }];
+
+    updateCoins(state, 0.1, []);
+    expect(state.coins.map(coin => coin.x)).toEqual([x + 200, x + 350]);
+
+    state.activePowerUp = { kind: 'magnet', endsAt: 5000 };
+    updateCoins(state, 0.1, []);
+    expect(state.coins[0].x).toBeCloseTo(x + 200 - MAGNET_SPEED * 0.1);
+    expect(state.coins[1].x).toBe(x + 350);
+  });
+});
@@ -0,0 +1,53 @@
+import { PLATFORM_HEIGHT, PLAYER_HEIGHT, PLAYER_WIDTH } from './constants';
+import { overlaps } from './physics';
+import { activePowerUp } from './powerUps';
+import { SimEvent, SimPlatform, SimState } from './types';
+
+// Coins hover above some of the generated platforms and are worth bonus points.
+// They come from their own seeded stream so they never shift the course.
+
+export const COIN_SIZE = 30;
+export const COIN_POINTS = 10;
+export const COIN_CHANCE = 0.3;
+export const MAGNET_SPEED = 700; // px/s a magnet pulls coins toward the player
+
+// Maybe put a coin just above each new platform
+export const placeCoins = (state: SimState, platforms: SimPlatform[]) => {
+  platforms.forEach(platform => {
+    if (state.coinRng.next() >= COIN_CHANCE) return;
+    state.coins.push({
+      id: state.nextId++,
+      x: platform.x,
+      y: platform.y - PLATFORM_HEIGHT / 2 - COIN_SIZE
+    });
+  });
+};
+
+// Pull coins in while a magnet is active, then pick up the ones the player touches
+export const updateCoins = (state: SimState, dt: number, events: SimEvent[]) => {
+  const player = state.player;
+  const radius = activePowerUp(state)?.magnetRadius;
+
+  if (radius !== undefined) {
+    state.coins.forEach(coin => {
+      // Squared distances and Math.sqrt, which unlike Math.hypot is exact in every engine
+      const dx = player.x - coin.x;
+      const dy = player.y - coin.y;
+      const squared = dx * dx + dy * dy;
+      if (squared > radius * radius || squared === 0) return;
+
+      const distance = Math.sqrt(squared);
+      const step = Math.min(distance, MAGNET_SPEED * dt);
+      coin.x += dx / distance * step;
+      coin.y += dy / distance * step;
+    });
+  }
+
+  state.coins = state.coins.filter(coin => {
+    if (!overlaps(player.x, player.y, PLAYER_WIDTH, PLAYER_HEIGHT, coin.x, coin.y, COIN_SIZE, COIN_SIZE)) return true;
+
+    state.bonusScore += COIN_POINTS;
+    events.push({ type: 'coinCollected', coinId: coin.id, points: COIN_POINTS });
+    return false;
+  });
+};
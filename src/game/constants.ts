@@ -0,0 +1,30 @@
+// Gameplay tuning shared by the simulation and the renderer
+
+// The simulation always advances in steps of this size, whatever the display refresh rate
+export const STEP_MS = 1000 / 60;
+
+export const WORLD_WIDTH = 800;
+export const VIEW_HEIGHT = 900;
+export const GRAVITY = 1000;
+export const MOVE_SPEED = 300;
+export const STEER_LEVELS = 8; // Analog steering resolution, kept coarse so recorded input stays small
+export const BOUNCE_VELOCITY = -720;
+export const LAUNCH_VELOCITY = -400;
+export const BOOST_VELOCITY = -2000;
+export const MINI_BOOST_VELOCITY = -300;
+export const MINI_BOOST_COOLDOWN = 500; // ms
+export const BOOST_DURATION = 2000; // ms
+export const POWER_UP_LIFETIME = 15000; // ms before an uncollected power-up disappears
+// Distances below the top of the view, which follows the player upward
+export const CAMERA_THRESHOLD = 250; // The camera climbs once the player rises above this
+export const GAME_OVER_Y = CAMERA_THRESHOLD + 700;
+export const GENERATION_MARGIN = 550; // Platforms are generated this far above the view
+export const POINTS_PER_MILESTONE = 100;
+
+// Hitbox sizes match the rendered sprites (hedgy is 100x110, platform and power-up images are drawn at half scale)
+export const PLAYER_WIDTH = 100;
+export const PLAYER_HEIGHT = 110;
+export const PLATFORM_WIDTH = 157;
+export const PLATFORM_HEIGHT = 28;
+export const POWER_UP_ITEM_WIDTH = 50;
+export const POWER_UP_ITEM_HEIGHT = 42;
@@ -0,0 +1,112 @@
+import {
+  BOOST_BUTTON_MARGIN,
+  CONTROLS_STORAGE_KEY,
+  ControlSettings,
+  NO_INPUT,
+  SHOOT_BUTTON_MARGIN,
+  combineInputs,
+  defaultControlSettings,
+  loadControlSettings,
+  screenTilt,
+  tiltInput,
+  tiltThreshold,
+  touchInput
+} from './controls';
+
+const view = { width: 800, height: 900 };
+const tiltSettings: ControlSettings = { scheme: 'tilt', tiltSensitivity: 5, tiltOffset: 0 };
+
+const storageWith = (value: string | null) => ({ getItem: () => value });
+
+describe('touchInput', () => {
+  it('steers with the half of the screen being held', () => {
+    expect(touchInput([{ x: 100, y: 300 }], view, 'touch')).toEqual({ ...NO_INPUT, left: true });
+    expect(touchInput([{ x: 700, y: 300 }], view, 'touch')).toEqual({ ...NO_INPUT, right: true });
+  });
+
+  it('boosts from the button while steering with another finger', () => {
+    const button = { x: 400, y: view.height - BOOST_BUTTON_MARGIN };
+    expect(touchInput([button], view, 'touch')).toEqual({ ...NO_INPUT, down: true });
+    expect(touchInput([{ x: 50, y: 100 }, button], view, 'touch')).toEqual({ ...NO_INPUT, left: true, down: true });
+  });
+
+  it('steers as hard as the hardest source that steers', () => {
+    expect(combineInputs({ ...NO_INPUT, right: true, steer: 0.5 }, { ...NO_INPUT, right: true, steer: 0.25 }).steer).toBe(0.5);
+    expect(combineInputs({ ...NO_INPUT, right: true, steer: 0.5 }, NO_INPUT).steer).toBe(0.5);
+  });
+
+  it('shoots from the button above the boost button in either scheme', () => {
+    const button = { x: 400, y: view.height - SHOOT_BUTTON_MARGIN };
+    expect(touchInput([button], view, 'touch')).toEqual({ ...NO_INPUT, shoot: true });
+    expect(touchInput([button], view, 'tilt')).toEqual({ ...NO_INPUT, shoot: true });
+  });
+
+  it('treats any tap as the mini-boost when steering by tilt', () => {
+    expect(touchInput([{ x: 100, y: 300 }], view, 'tilt')).toEqual({ ...NO_INPUT, down: true });
+  });
+
+  it('ignores touches with keyboard controls or nothing held', () => {
+    expect(touchInput([{ x: 100, y: 300 }], view, 'keyboard')).toEqual(NO_INPUT);
+    expect(touchInput([], view, 'touch')).toEqual(NO_INPUT);
+  });
+});
+
+describe('tiltInput', () => {
+  it('steers once the tilt passes the sensitivity threshold', () => {
+    const threshold = tiltThreshold(5);
+    expect(tiltInput(threshold - 1, tiltSettings)).toEqual(NO_INPUT);
+    expect(tiltInput(threshold, tiltSettings)).toEqual({ ...NO_INPUT, right: true });
+    expect(tiltInput(-threshold, tiltSettings)).toEqual({ ...NO_INPUT, left: true });
+  });
+
+  it('needs less tilt at higher sensitivity', () => {
+    expect(tiltThreshold(10)).toBeLessThan(tiltThreshold(1));
+    expect(tiltInput(5, { ...tiltSettings, tiltSensitivity: 1 })).toEqual(NO_INPUT);
+    expect(tiltInput(5, { ...tiltSettings, tiltSensitivity: 10 })).toEqual({ ...NO_INPUT, right: true });
+  });
+
+  it('measures tilt from the calibrated level', () => {
+    const calibrated = { ...tiltSettings, tiltOffset: 15 };
+    expect(tiltInput(15, calibrated)).toEqual(NO_INPUT);
+    expect(tiltInput(0, calibrated)).toEqual({ ...NO_INPUT, left: true });
+  });
+
+  it('does nothing without a sensor reading', () => {
+    expect(tiltInput(null, tiltSettings)).toEqual(NO_INPUT);
+  });
+});
+
+describe('screenTilt', () => {
+  it('follows the screen orientation', () => {
+    expect(screenTilt(10, 20, 0)).toBe(20);
+    expect(screenTilt(10, 20, 90)).toBe(10);
+    expect(screenTilt(10, 20, 180)).toBe(-20);
+    expect(screenTilt(10, 20, -90)).toBe(-10);
+  });
+});
+
+describe('combineInputs', () => {
+  it('presses whatever any source presses', () => {
+    expect(combineInputs({ ...NO_INPUT, left: true }, { ...NO_INPUT, down: true })).toEqual({ ...NO_INPUT, left: true, down: true });
+  });
+});
+
+describe('loadControlSettings', () => {
+  it('defaults to touch controls on touch devices', () => {
+    expect(loadControlSettings(storageWith(null), true)).toEqual(defaultControlSettings(true));
+    expect(loadControlSettings(storageWith(null), false).scheme).toBe('keyboard');
+  });
+
+  it('restores saved settings and replaces invalid ones', () => {
+    expect(loadControlSettings(storageWith(JSON.stringify(tiltSettings)), false)).toEqual(tiltSettings);
+    expect(loadControlSettings(storageWith(JSON.stringify({ scheme: 'joystick', tiltSensitivity: 40, tiltOffset: 'x' })), false))
+      .toEqual(defaultControlSettings(false));
+    expect(loadControlSettings(storageWith('not json'), true)).toEqual(defaultControlSettings(true));
+  });
+
+  it('uses its own storage key', () => {
+    const getItem = jest.fn().mockReturnValue(null);
+    loadControlSettings({ getItem }, false);
+    expect(getItem).toHaveBeenCalledWith(CONTROLS_STORAGE_KEY);
+  });
+});
@@ -0,0 +1,125 @@
+import { FrameInput } from './types';
+
+// Touch and tilt controls for phones. Every scheme is turned into the same
+// FrameInput the keyboard produces, so runs record and replay exactly as before.
+
+export type ControlScheme = 'keyboard' | 'touch' | 'tilt';
+
+export interface ControlSettings {
+  scheme: ControlScheme;
+  tiltSensitivity: number; // 1 (steep tilt needed) to 10 (a slight tilt steers)
+  tiltOffset: number; // Degrees of tilt treated as level, set by calibrating
+}
+
+export interface TouchPoint {
+  x: number;
+  y: number;
+}
+
+export const CONTROLS_STORAGE_KEY = 'hedgy-jump:controls';
+export const MIN_TILT_SENSITIVITY = 1;
+export const MAX_TILT_SENSITIVITY = 10;
+
+// On-screen mini-boost button, centred at the bottom of the view
+export const BOOST_BUTTON_RADIUS = 70;
+export const BOOST_BUTTON_MARGIN = 100; // From the bottom edge to the button centre
+// Shoot button, stacked above the mini-boost button
+export const SHOOT_BUTTON_MARGIN = BOOST_BUTTON_MARGIN + 2 * BOOST_BUTTON_RADIUS + 20;
+
+export const NO_INPUT: FrameInput = { left: false, right: false, down: false, shoot: false, steer: 1 };
+
+export const defaultControlSettings = (touchDevice: boolean): ControlSettings => ({
+  scheme: touchDevice ? 'touch' : 'keyboard',
+  tiltSensitivity: 5,
+  tiltOffset: 0
+});
+
+// Degrees of tilt away from level needed to steer: 20 at sensitivity 1, 2 at 10
+export const tiltThreshold = (sensitivity: number) => 22 - 2 * sensitivity;
+
+// Left/right tilt relative to the screen from a deviceorientation reading.
+// Gamma is the side-to-side tilt in portrait; in landscape that axis is beta.
+export const screenTilt = (beta: number, gamma: number, orientationAngle: number) => {
+  switch (((orientationAngle % 360) + 360) % 360) {
+    case 90:
+      return beta;
+    case 180:
+      return -gamma;
+    case 270:
+      return -beta;
+    default:
+      return gamma;
+  }
+};
+
+export const tiltInput = (tilt: number | null, settings: ControlSettings): FrameInput => {
+  if (tilt === null) return NO_INPUT;
+  const threshold = tiltThreshold(settings.tiltSensitivity);
+  const level = tilt - settings.tiltOffset;
+  return { ...NO_INPUT, left: level <= -threshold, right: level >= threshold };
+};
+
+// Touch scheme: hold the left or right half of the screen to steer, or the boost
+// button for the mini-boost. With tilt steering, tapping anywhere is the mini-boost.
+// Both schemes shoot with the button above the boost button.
+export const touchInput = (
+  points: TouchPoint[],
+  view: { width: number; height: number },
+  scheme: ControlScheme
+): FrameInput => {
+  if (scheme === 'keyboard' || points.length === 0) return NO_INPUT;
+
+  const buttonX = view.width / 2;
+  const onButton = (point: TouchPoint, margin: number) =>
+    Math.hypot(point.x - buttonX, point.y - (view.height - margin)) <= BOOST_BUTTON_RADIUS;
+  const input = { ...NO_INPUT };
+  points.forEach(point => {
+    if (onButton(point, SHOOT_BUTTON_MARGIN)) {
+      input.shoot = true;
+    } else if (scheme === 'tilt' || onButton(point, BOOST_BUTTON_MARGIN)) {
+      input.down = true;
+    } else if (point.x < view.width / 2) {
+      input.left = true;
+    } else {
+      input.right = true;
+    }
+  });
+  return input;
+};
+
+// Steers as hard as the hardest source that is steering
+export const combineInputs = (...inputs: FrameInput[]): FrameInput => {
+  const steering = inputs.filter(input => input.left || input.right);
+  return {
+    left: inputs.some(input => input.left),
+    right: inputs.some(input => input.right),
+    down: inputs.some(input => input.down),
+    shoot: inputs.some(input => input.shoot),
+    steer: steering.length > 0 ? Math.max(...steering.map(input => input.steer)) : 1
+  };
+};
+
+const SCHEMES: ControlScheme[] = ['keyboard', 'touch', 'tilt'];
+
+// Saved settings, falling back to the defaults for anything missing or invalid
+export const loadControlSettings = (storage: Pick<Storage, 'getItem'>, touchDevice: boolean): ControlSettings => {
+  const defaults = defaultControlSettings(touchDevice);
+  try {
+    const saved = JSON.parse(storage.getItem(CONTROLS_STORAGE_KEY) || '{}');
+    const sensitivity = Number(saved.tiltSensitivity);
+    return {
+      scheme: SCHEMES.includes(saved.scheme) ? saved.scheme : defaults.scheme,
+      tiltSensitivity: Number.isInteger(sensitivity) &&
+        sensitivity >= MIN_TILT_SENSITIVITY && sensitivity <= MAX_TILT_SENSITIVITY
+        ? sensitivity
+        : defaults.tiltSensitivity,
+      tiltOffset: Number.isFinite(saved.tiltOffset) ? saved.tiltOffset : defaults.tiltOffset
+    };
+  } catch (error) {
+    return defaults;
+  }
+};
+
+export const saveControlSettings = (storage: Pick<Storage, 'setItem'>, settings: ControlSettings) => {
+  storage.setItem(CONTROLS_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,43 @@
+import { screenTilt } from './controls';
+
+// Browser side of tilt steering: reads deviceorientation events as a single
+// screen-relative left/right tilt in degrees.
+
+// iOS Safari exposes a permission prompt that may only be opened from a click
+type OrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+};
+
+export const isTiltSupported = () => typeof window !== 'undefined' && 'DeviceOrientationEvent' in window;
+
+export const isTouchDevice = () =>
+  typeof window !== 'undefined' && ('ontouchstart' in window || navigator.maxTouchPoints > 0);
+
+// Ask for access to the orientation sensor where the browser requires it. Call from a click handler.
+export const requestTiltPermission = async () => {
+  if (!isTiltSupported()) return false;
+  const OrientationEvent = DeviceOrientationEvent as OrientationEventWithPermission;
+  if (typeof OrientationEvent.requestPermission !== 'function') return true;
+  try {
+    return (await OrientationEvent.requestPermission()) === 'granted';
+  } catch (error) {
+    console.warn('Tilt permission request failed:', error);
+    return false;
+  }
+};
+
+const orientationAngle = () =>
+  window.screen.orientation?.angle ?? Number((window as { orientation?: number }).orientation ?? 0);
+
+// Call onTilt on every orientation reading; returns a function that stops listening
+export const watchDeviceTilt = (onTilt: (tilt: number) => void) => {
+  if (!isTiltSupported()) return () => {};
+
+  const handleOrientation = (event: DeviceOrientationEvent) => {
+    if (event.beta === null || event.gamma === null) return;
+    onTilt(screenTilt(event.beta, event.gamma, orientationAngle()));
+  };
+
+  window.addEventListener('deviceorientation', handleOrientation);
+  return () => window.removeEventListener('deviceorientation', handleOrientation);
+};
@@ -0,0 +1,30 @@
+import { NORMAL_DIFFICULTY, difficultyAt } from './difficulty';
+import { MAX_SAFE_GAP } from './reachability';
+
+describe('difficulty profile', () => {
+  it('applies each band from its level score until the next one', () => {
+    expect(difficultyAt(NORMAL_DIFFICULTY, 0)).toBe(NORMAL_DIFFICULTY.bands[0]);
+    expect(difficultyAt(NORMAL_DIFFICULTY, 199).from).toBe(150);
+    expect(difficultyAt(NORMAL_DIFFICULTY, 200).from).toBe(200);
+    expect(difficultyAt(NORMAL_DIFFICULTY, 50000).from).toBe(1000);
+  });
+
+  it('gets harder as the level score grows', () => {
+    const bands = NORMAL_DIFFICULTY.bands;
+    expect(bands[0].from).toBe(0);
+    for (let i = 1; i < bands.length; i++) {
+      expect(bands[i].from).toBeGreaterThan(bands[i - 1].from);
+      expect(bands[i].gap.max).toBeGreaterThanOrEqual(bands[i - 1].gap.max);
+      expect(bands[i].platformsPerLayer).toBeLessThanOrEqual(bands[i - 1].platformsPerLayer);
+      expect(bands[i].enemyChance).toBeGreaterThanOrEqual(bands[i - 1].enemyChance);
+    }
+  });
+
+  it('keeps every band within a safe jump', () => {
+    NORMAL_DIFFICULTY.bands.forEach(band => {
+      expect(band.gap.min).toBeLessThanOrEqual(band.gap.max);
+      expect(band.gap.max).toBeLessThanOrEqual(MAX_SAFE_GAP);
+      expect(band.platformMix.reduce((sum, [, chance]) => sum + chance, 0)).toBeLessThanOrEqual(1);
+    });
+  });
+});
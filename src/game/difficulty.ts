@@ -0,0 +1,99 @@
+import { EnemyKind, PlatformType } from './types';
+
+// How hard the tower gets as it climbs, as data. A profile is a list of score
+// bands, each applying from its level score until the next one takes over.
+// Generation reads everything it tunes from the band for the layer it is
+// building, and the reachability check in reachability.ts keeps every band
+// climbable however it is tuned.
+
+export interface DifficultyBand {
+  from: number; // Level score this band starts at
+  gap: { min: number; max: number }; // Vertical spacing between platforms in a layer
+  platformsPerLayer: number;
+  // Chance of each special platform type. Whatever is left over is a regular platform
+  platformMix: [PlatformType, number][];
+  enemyChance: number; // Chance of an enemy in the gap above each new platform
+  enemyKinds: EnemyKind[]; // Picked evenly
+}
+
+export interface DifficultyProfile {
+  name: string;
+  bands: DifficultyBand[]; // Sorted by `from`, starting at 0
+}
+
+const EARLY_MIX: [PlatformType, number][] = [['moving', 0.2], ['breakable', 0.1], ['spring', 0.05]];
+const MID_MIX: [PlatformType, number][] = [
+  ['moving', 0.25], ['breakable', 0.2], ['vertical', 0.05], ['disappearing', 0.05], ['spring', 0.05]
+];
+const LATE_MIX: [PlatformType, number][] = [
+  ['moving', 0.25], ['breakable', 0.2], ['vertical', 0.1], ['disappearing', 0.1], ['crumbling', 0.1], ['spring', 0.05]
+];
+
+// Ranked runs are always played on this profile
+export const NORMAL_DIFFICULTY: DifficultyProfile = {
+  name: 'normal',
+  bands: [
+    { from: 0, gap: { min: 100, max: 150 }, platformsPerLayer: 5, platformMix: [], enemyChance: 0, enemyKinds: [] },
+    { from: 20, gap: { min: 102, max: 155 }, platformsPerLayer: 5, platformMix: EARLY_MIX, enemyChance: 0, enemyKinds: [] },
+    { from: 50, gap: { min: 105, max: 160 }, platformsPerLayer: 5, platformMix: MID_MIX, enemyChance: 0, enemyKinds: [] },
+    { from: 100, gap: { min: 110, max: 170 }, platformsPerLayer: 5, platformMix: LATE_MIX, enemyChance: 0, enemyKinds: [] },
+    {
+      from: 150,
+      gap: { min: 115, max: 180 },
+      platformsPerLayer: 5,
+      platformMix: LATE_MIX,
+      enemyChance: 0.05,
+      enemyKinds: ['hover']
+    },
+    {
+      from: 200,
+      gap: { min: 120, max: 190 },
+      platformsPerLayer: 4,
+      platformMix: LATE_MIX,
+      enemyChance: 0.07,
+      enemyKinds: ['hover']
+    },
+    {
+      from: 300,
+      gap: { min: 130, max: 210 },
+      platformsPerLayer: 4,
+      platformMix: LATE_MIX,
+      enemyChance: 0.1,
+      enemyKinds: ['hover', 'patrol']
+    },
+    {
+      from: 400,
+      gap: { min: 140, max: 220 },
+      platformsPerLayer: 3,
+      platformMix: LATE_MIX,
+      enemyChance: 0.13,
+      enemyKinds: ['hover', 'patrol']
+    },
+    {
+      from: 600,
+      gap: { min: 160, max: 225 },
+      platformsPerLayer: 2,
+      platformMix: LATE_MIX,
+      enemyChance: 0.2,
+      enemyKinds: ['hover', 'patrol', 'blackHole']
+    },
+    {
+      from: 1000,
+      gap: { min: 170, max: 225 },
+      platformsPerLayer: 2,
+      platformMix: LATE_MIX,
+      enemyChance: 0.3,
+      enemyKinds: ['hover', 'patrol', 'blackHole']
+    }
+  ]
+};
+
+// The band in effect at a level score
+export const difficultyAt = (profile: DifficultyProfile, levelScore: number) => {
+  let band = profile.bands[0];
+  for (const next of profile.bands) {
+    if (levelScore >= next.from) band = next;
+  }
+  return band;
+};
+
@@ -0,0 +1,118 @@
+import { BOUNCE_VELOCITY, PLAYER_HEIGHT } from './constants';
+import {
+  ENEMY_KINDS,
+  PATROL_RANGE,
+  STOMP_POINTS,
+  isAvoidable,
+  pickEnemyKind,
+  placeEnemy,
+  resolveEnemyContact,
+  updateEnemies
+} from './enemies';
+import { NORMAL_DIFFICULTY, difficultyAt } from './difficulty';
+import { VERTICAL_RANGE } from './platformBehaviors';
+import { JUMP_HEIGHT } from './reachability';
+import { createSimulation } from './simulation';
+import { EnemyKind, PlatformType, SimEnemy, SimEvent, SimPlatform } from './types';
+
+const makePlatform = (x: number, y: number, type: PlatformType = 'regular'): SimPlatform => ({
+  id: 1, x, y, type, direction: 1, speed: 0, originY: y, solid: true, touchedAt: null, phase: 0
+});
+
+const makeEnemy = (kind: EnemyKind, overrides: Partial<SimEnemy> = {}): SimEnemy => ({
+  id: 50, kind, x: 400, y: 300, originX: 400, direction: 1, speed: 100, ...overrides
+});
+
+describe('enemy spawning', () => {
+  it('picks among the kinds the difficulty band allows', () => {
+    expect(pickEnemyKind(difficultyAt(NORMAL_DIFFICULTY, 200), 0.99)).toBe('hover');
+    expect(pickEnemyKind(difficultyAt(NORMAL_DIFFICULTY, 400), 0.99)).toBe('patrol');
+    expect(pickEnemyKind(difficultyAt(NORMAL_DIFFICULTY, 1000), 0.99)).toBe('blackHole');
+  });
+
+  it('never blocks the column above a platform', () => {
+    const platforms = [makePlatform(400, 400)];
+    expect(isAvoidable('hover', 400, 250, platforms)).toBe(false);
+    expect(isAvoidable('hover', 650, 250, platforms)).toBe(true);
+    expect(isAvoidable('patrol', 650, 250, platforms)).toBe(false);
+    expect(isAvoidable('hover', 400, -400, platforms)).toBe(true);
+    expect(isAvoidable('hover', 650, 250, [makePlatform(400, 400, 'moving')])).toBe(false);
+  });
+
+  it('keeps clear of a vertical mover anywhere along its travel', () => {
+    const y = 400 - JUMP_HEIGHT - VERTICAL_RANGE / 2;
+    expect(isAvoidable('hover', 400, y, [makePlatform(400, 400)])).toBe(true);
+    expect(isAvoidable('hover', 400, y, [makePlatform(400, 400, 'vertical')])).toBe(false);
+
+    // Checked from where it was placed, wherever it has moved to since
+    const moved = { ...makePlatform(400, 400, 'vertical'), y: 400 + VERTICAL_RANGE };
+    expect(isAvoidable('hover', 400, y, [moved])).toBe(false);
+  });
+
+  it('only places enemies where they can be avoided', () => {
+    const state = createSimulation(1);
+    state.platforms = [makePlatform(150, 0), makePlatform(650, -250)];
+
+    for (let i = 0; i < 200; i++) {
+      placeEnemy(state, state.platforms[0], state.platforms[1], difficultyAt(NORMAL_DIFFICULTY, 5000));
+    }
+    expect(state.enemies.length).toBeGreaterThan(0);
+    state.enemies.forEach(enemy => {
+      expect(enemy.y).toBe(-125);
+      expect(isAvoidable(enemy.kind, enemy.x, enemy.y, state.platforms)).toBe(true);
+    });
+  });
+});
+
+describe('enemy behavior', () => {
+  it('walks patrollers back and forth around where they were placed', () => {
+    const enemies = [makeEnemy('patrol'), makeEnemy('hover')];
+    const xs: number[] = [];
+    for (let i = 0; i < 60; i++) {
+      updateEnemies(enemies, 0.1);
+      xs.push(enemies[0].x);
+    }
+    expect(Math.max(...xs)).toBe(400 + PATROL_RANGE);
+    expect(Math.min(...xs)).toBe(400 - PATROL_RANGE);
+    expect(enemies[1].x).toBe(400);
+  });
+
+  it('stomps enemies landed on from above for a bounce and bonus points', () => {
+    const state = createSimulation(1);
+    state.enemies = [makeEnemy('hover')];
+    const enemyTop = 300 - ENEMY_KINDS.hover.height / 2;
+    state.player.x = 400;
+    state.player.y = enemyTop - PLAYER_HEIGHT / 2 + 5;
+    state.player.vy = 300;
+
+    const events: SimEvent[] = [];
+    expect(resolveEnemyContact(state, enemyTop - 5, events)).toBe(false);
+    expect(events).toEqual([{ type: 'enemyStomped', enemyId: 50, points: STOMP_POINTS }]);
+    expect(state.enemies).toEqual([]);
+    expect(state.bonusScore).toBe(STOMP_POINTS);
+    expect(state.player.vy).toBe(BOUNCE_VELOCITY);
+  });
+
+  it('ends the run on contact from below or the side', () => {
+    const state = createSimulation(1);
+    state.enemies = [makeEnemy('hover')];
+    state.player.x = 400;
+    state.player.y = 340;
+    state.player.vy = -300;
+
+    const events: SimEvent[] = [];
+    expect(resolveEnemyContact(state, 400, events)).toBe(true);
+    expect(events).toEqual([{ type: 'enemyHit', enemyId: 50 }]);
+  });
+
+  it('never lets black holes be stomped', () => {
+    const state = createSimulation(1);
+    state.enemies = [makeEnemy('blackHole')];
+    const top = 300 - ENEMY_KINDS.blackHole.height / 2;
+    state.player.x = 400;
+    state.player.y = top - PLAYER_HEIGHT / 2 + 5;
+    state.player.vy = 300;
+
+    expect(resolveEnemyContact(state, top - 5, [])).toBe(true);
+  });
+});
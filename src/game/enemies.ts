@@ -0,0 +1,117 @@
+import { BOUNCE_VELOCITY, PLATFORM_WIDTH, PLAYER_HEIGHT, PLAYER_WIDTH, WORLD_WIDTH } from './constants';
+import { DifficultyBand } from './difficulty';
+import { overlaps } from './physics';
+import { activePowerUp, endPowerUp } from './powerUps';
+import { JUMP_HEIGHT, travelOf } from './reachability';
+import { EnemyKind, SimEnemy, SimEvent, SimPlatform, SimState } from './types';
+
+// Enemies are placed between platforms as the tower is generated, from their own
+// seeded stream so they never shift the platform layout. Touching one from below
+// or the side ends the run, landing on top stomps it for a bounce and bonus points.
+
+export const STOMP_POINTS = 50;
+export const PATROL_RANGE = 120; // How far patrollers wander either side of where they were placed
+const PLACEMENT_ATTEMPTS = 8;
+
+export const ENEMY_KINDS: Record<EnemyKind, { width: number; height: number; destructible: boolean }> = {
+  hover: { width: 60, height: 60, destructible: true },
+  patrol: { width: 60, height: 60, destructible: true },
+  blackHole: { width: 90, height: 90, destructible: false } // Can be neither stomped nor shot
+};
+
+// Enemy kind for a uniform roll in [0, 1), among the kinds the difficulty band allows
+export const pickEnemyKind = (band: DifficultyBand, rnd: number): EnemyKind =>
+  band.enemyKinds[Math.floor(rnd * band.enemyKinds.length)] ?? 'hover';
+
+// Half the width an enemy can ever cover, including where it patrols
+const enemyReach = (kind: EnemyKind) => ENEMY_KINDS[kind].width / 2 + (kind === 'patrol' ? PATROL_RANGE : 0);
+
+// An enemy never blocks the column above or below a platform within a jump of it,
+// so the player can always rise straight up past it and cross over on the way down.
+// Moving platforms count everywhere they travel: horizontal movers sweep the whole
+// width, so an enemy is never placed near one, and vertical movers their whole range.
+export const isAvoidable = (kind: EnemyKind, x: number, y: number, platforms: SimPlatform[]) => {
+  const reach = enemyReach(kind);
+  const column = PLATFORM_WIDTH / 2 + PLAYER_WIDTH / 2;
+  return platforms.every(platform => {
+    const travel = travelOf(platform);
+    return Math.abs(platform.originY - y) - travel.y > JUMP_HEIGHT ||
+      Math.abs(platform.x - x) - travel.x > reach + column;
+  });
+};
+
+// Maybe place an enemy halfway between two platforms that follow each other up the tower
+export const placeEnemy = (state: SimState, lower: SimPlatform, upper: SimPlatform, band: DifficultyBand) => {
+  const rng = state.enemyRng;
+  if (rng.next() >= band.enemyChance) return;
+
+  const kind = pickEnemyKind(band, rng.next());
+  const reach = Math.ceil(enemyReach(kind));
+  const y = (lower.y + upper.y) / 2;
+
+  // Leave room above and below for the player to pass between the enemy and either platform
+  if (Math.abs(upper.y - lower.y) < ENEMY_KINDS[kind].height * 2) return;
+
+  for (let i = 0; i < PLACEMENT_ATTEMPTS; i++) {
+    const x = rng.between(reach, WORLD_WIDTH - reach);
+    if (!isAvoidable(kind, x, y, state.platforms)) continue;
+
+    const enemy: SimEnemy = { id: state.nextId++, kind, x, y, originX: x, direction: 1, speed: 0 };
+    if (kind === 'patrol') {
+      enemy.direction = rng.next() > 0.5 ? 1 : -1;
+      enemy.speed = rng.between(80, 140);
+    }
+    state.enemies.push(enemy);
+    return;
+  }
+};
+
+// Patrollers walk back and forth, everything else stays put
+export const updateEnemies = (enemies: SimEnemy[], dt: number) => {
+  enemies.forEach(enemy => {
+    if (enemy.kind !== 'patrol') return;
+
+    enemy.x += enemy.direction * enemy.speed * dt;
+    if (enemy.x <= enemy.originX - PATROL_RANGE) {
+      enemy.x = enemy.originX - PATROL_RANGE;
+      enemy.direction = 1;
+    } else if (enemy.x >= enemy.originX + PATROL_RANGE) {
+      enemy.x = enemy.originX + PATROL_RANGE;
+      enemy.direction = -1;
+    }
+  });
+};
+
+// Check the player against every enemy after both moved this step. Stomps add
+// to the bonus score; returns true when the player ran into an enemy instead.
+export const resolveEnemyContact = (state: SimState, previousBottom: number, events: SimEvent[]) => {
+  const player = state.player;
+  if (activePowerUp(state)?.invulnerable) return false;
+
+  for (const enemy of [...state.enemies]) {
+    const { width, height, destructible } = ENEMY_KINDS[enemy.kind];
+    if (!overlaps(player.x, player.y, PLAYER_WIDTH, PLAYER_HEIGHT, enemy.x, enemy.y, width, height)) continue;
+
+    // Stomping needs the player's feet to have been above the enemy before this step
+    if (destructible && player.vy > 0 && previousBottom <= enemy.y - height / 2) {
+      state.enemies = state.enemies.filter(other => other !== enemy);
+      state.bonusScore += STOMP_POINTS;
+      player.vy = BOUNCE_VELOCITY;
+      events.push({ type: 'enemyStomped', enemyId: enemy.id, points: STOMP_POINTS });
+      continue;
+    }
+
+    // A shield takes the hit instead, and the enemy with it
+    if (activePowerUp(state)?.shield) {
+      state.enemies = state.enemies.filter(other => other !== enemy);
+      events.push({ type: 'shieldAbsorbed', enemyId: enemy.id });
+      endPowerUp(state, events);
+      continue;
+    }
+
+    events.push({ type: 'enemyHit', enemyId: enemy.id });
+    return true;
+  }
+
+  return false;
+};
@@ -0,0 +1,129 @@
+import {
+  DEFAULT_BINDINGS,
+  GamepadState,
+  actionsToFrameInput,
+  bindKey,
+  keyLabel,
+  loadBindings,
+  readActions,
+  readSteer,
+  stickSteer
+} from './input';
+
+const noKeys = new Set<string>();
+const pad = (overrides: Partial<GamepadState> = {}): GamepadState => ({ buttons: [], stickX: 0, ...overrides });
+const storageWith = (value: string | null) => ({ getItem: () => value });
+
+describe('readActions', () => {
+  it('reads every key bound to an action', () => {
+    expect(readActions(new Set(['KeyA']), null, DEFAULT_BINDINGS).left).toBe(true);
+    expect(readActions(new Set(['ArrowRight']), null, DEFAULT_BINDINGS).right).toBe(true);
+    expect(readActions(new Set(['KeyS', 'Escape']), null, DEFAULT_BINDINGS)).toEqual({
+      left: false, right: false, boost: true, shoot: false, pause: true
+    });
+  });
+
+  it('reads the gamepad buttons', () => {
+    const buttons: boolean[] = [];
+    buttons[0] = true;
+    buttons[14] = true;
+    buttons[2] = true;
+    expect(readActions(noKeys, pad({ buttons }), DEFAULT_BINDINGS)).toEqual({
+      left: true, right: false, boost: true, shoot: true, pause: false
+    });
+  });
+
+  it('steers with the stick only past the dead zone', () => {
+    const deadZone = DEFAULT_BINDINGS.stickDeadZone;
+    expect(readActions(noKeys, pad({ stickX: deadZone / 2 }), DEFAULT_BINDINGS).right).toBe(false);
+    expect(readActions(noKeys, pad({ stickX: deadZone }), DEFAULT_BINDINGS).right).toBe(false);
+    expect(readActions(noKeys, pad({ stickX: deadZone + 0.01 }), DEFAULT_BINDINGS).right).toBe(true);
+    expect(readActions(noKeys, pad({ stickX: -0.9 }), DEFAULT_BINDINGS).left).toBe(true);
+  });
+});
+
+describe('readSteer', () => {
+  it('steers in levels by how far the stick is pushed past the dead zone', () => {
+    expect(stickSteer(0.1, 0.2)).toBe(0);
+    expect(stickSteer(0.2, 0.2)).toBe(0);
+    expect(stickSteer(-0.2, 0.2)).toBe(0);
+    expect(stickSteer(0.21, 0.2)).toBe(1 / 8);
+    expect(stickSteer(-0.6, 0.2)).toBe(0.5);
+    expect(stickSteer(1, 0.2)).toBe(1);
+    expect(readSteer(noKeys, pad({ stickX: 0.6 }), { ...DEFAULT_BINDINGS, stickDeadZone: 0.2 })).toBe(0.5);
+  });
+
+  it('steers at full speed from keys, the d-pad or without a stick', () => {
+    const buttons: boolean[] = [];
+    buttons[15] = true;
+    expect(readSteer(new Set(['KeyD']), pad({ stickX: 0.4 }), DEFAULT_BINDINGS)).toBe(1);
+    expect(readSteer(noKeys, pad({ buttons, stickX: 0.4 }), DEFAULT_BINDINGS)).toBe(1);
+    expect(readSteer(noKeys, pad(), DEFAULT_BINDINGS)).toBe(1);
+    expect(readSteer(noKeys, null, DEFAULT_BINDINGS)).toBe(1);
+  });
+});
+
+describe('actionsToFrameInput', () => {
+  it('turns the mini-boost into the down input', () => {
+    expect(actionsToFrameInput({ left: false, right: true, boost: true, shoot: false, pause: true }))
+      .toEqual({ left: false, right: true, down: true, shoot: false, steer: 1 });
+  });
+});
+
+describe('bindKey', () => {
+  it('replaces the key in a slot', () => {
+    expect(bindKey(DEFAULT_BINDINGS, 'left', 1, 'KeyJ').keys.left).toEqual(['ArrowLeft', 'KeyJ']);
+  });
+
+  it('takes the key away from any other action', () => {
+    const bindings = bindKey(DEFAULT_BINDINGS, 'pause', 0, 'KeyA');
+    expect(bindings.keys.pause).toEqual(['KeyA', 'KeyP']);
+    expect(bindings.keys.left).toEqual(['ArrowLeft']);
+  });
+
+  it('fills an empty slot and never binds a key twice to one action', () => {
+    const single = bindKey(DEFAULT_BINDINGS, 'right', 0, 'ArrowLeft');
+    expect(single.keys.left).toEqual(['KeyA']);
+    expect(bindKey(single, 'left', 1, 'KeyQ').keys.left).toEqual(['KeyA', 'KeyQ']);
+    expect(bindKey(DEFAULT_BINDINGS, 'left', 1, 'ArrowLeft').keys.left).toEqual(['ArrowLeft']);
+  });
+
+  it('leaves the original bindings alone', () => {
+    bindKey(DEFAULT_BINDINGS, 'left', 0, 'KeyD');
+    expect(DEFAULT_BINDINGS.keys.right).toEqual(['ArrowRight', 'KeyD']);
+  });
+});
+
+describe('keyLabel', () => {
+  it('shortens common key codes', () => {
+    expect(keyLabel('KeyA')).toBe('A');
+    expect(keyLabel('Digit5')).toBe('5');
+    expect(keyLabel('ArrowLeft')).toBe('←');
+    expect(keyLabel('Escape')).toBe('Escape');
+  });
+});
+
+describe('loadBindings', () => {
+  it('uses the defaults without saved bindings', () => {
+    expect(loadBindings(storageWith(null))).toEqual(DEFAULT_BINDINGS);
+    expect(loadBindings(storageWith('not json'))).toEqual(DEFAULT_BINDINGS);
+  });
+
+  it('restores saved bindings and replaces invalid parts', () => {
+    const saved = bindKey({ ...DEFAULT_BINDINGS, stickDeadZone: 0.4 }, 'boost', 0, 'Space');
+    expect(loadBindings(storageWith(JSON.stringify(saved)))).toEqual(saved);
+
+    const broken = { keys: { ...saved.keys, left: 'KeyA', right: ['a', 'b', 'c'] }, stickDeadZone: 2 };
+    expect(loadBindings(storageWith(JSON.stringify(broken)))).toEqual({
+      keys: { ...saved.keys, left: DEFAULT_BINDINGS.keys.left, right: DEFAULT_BINDINGS.keys.right },
+      stickDeadZone: DEFAULT_BINDINGS.stickDeadZone
+    });
+  });
+
+  it('keeps a key bound to several actions on the first one only', () => {
+    const saved = { ...DEFAULT_BINDINGS, keys: { ...DEFAULT_BINDINGS.keys, shoot: ['KeyA', 'KeyW'] } };
+    const bindings = loadBindings(storageWith(JSON.stringify(saved)));
+    expect(bindings.keys.left).toEqual(DEFAULT_BINDINGS.keys.left);
+    expect(bindings.keys.shoot).toEqual(['KeyW']);
+  });
+});
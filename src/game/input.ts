@@ -0,0 +1,161 @@
+import { STEER_LEVELS } from './constants';
+import { FrameInput } from './types';
+
+// Player actions and the keys and gamepad controls bound to them. Keys are
+// KeyboardEvent.code values so bindings follow the physical key on any layout.
+// Past its dead zone the stick steers as hard as it is pushed, in STEER_LEVELS steps.
+
+export type InputAction = 'left' | 'right' | 'boost' | 'shoot' | 'pause';
+
+export const INPUT_ACTIONS: InputAction[] = ['left', 'right', 'boost', 'shoot', 'pause'];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  left: 'Move left',
+  right: 'Move right',
+  boost: 'Mini-boost',
+  shoot: 'Shoot',
+  pause: 'Pause'
+};
+
+export const KEYS_PER_ACTION = 2;
+
+export interface InputBindings {
+  keys: Record<InputAction, string[]>; // Up to KEYS_PER_ACTION codes per action, possibly none
+  stickDeadZone: number; // 0.05 to 0.9 of the stick's travel
+}
+
+export const MIN_DEAD_ZONE = 0.05;
+export const MAX_DEAD_ZONE = 0.9;
+
+// Standard gamepad layout: d-pad left/right, A (bottom face button), X (left face button) and Start
+export const GAMEPAD_BUTTONS: Record<InputAction, number[]> = {
+  left: [14],
+  right: [15],
+  boost: [0],
+  shoot: [2],
+  pause: [9]
+};
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  keys: {
+    left: ['ArrowLeft', 'KeyA'],
+    right: ['ArrowRight', 'KeyD'],
+    boost: ['ArrowDown', 'KeyS'],
+    shoot: ['ArrowUp', 'KeyW'],
+    pause: ['Escape', 'KeyP']
+  },
+  stickDeadZone: 0.25
+};
+
+export const BINDINGS_STORAGE_KEY = 'hedgy-jump:bindings';
+
+export interface GamepadState {
+  buttons: boolean[]; // Pressed state by standard button index
+  stickX: number; // Left stick, -1 (left) to 1 (right)
+}
+
+export type ActionState = Record<InputAction, boolean>;
+
+// Whether a key or gamepad button bound to the action is down
+const isHeld = (action: InputAction, pressedKeys: ReadonlySet<string>, gamepad: GamepadState | null, bindings: InputBindings) =>
+  bindings.keys[action].some(code => pressedKeys.has(code)) ||
+  (gamepad !== null && GAMEPAD_BUTTONS[action].some(button => gamepad.buttons[button]));
+
+// Whether the stick is pushed past the dead zone. Its edge still counts as inside
+const pastDeadZone = (stickX: number, deadZone: number) => Math.abs(stickX) > deadZone;
+
+// How far the stick is pushed past the dead zone, rounded up to a steering level. 0 inside the dead zone
+export const stickSteer = (stickX: number, deadZone: number) => {
+  if (!pastDeadZone(stickX, deadZone)) return 0;
+  const travel = Math.min(1, (Math.abs(stickX) - deadZone) / (1 - deadZone));
+  return Math.ceil(travel * STEER_LEVELS) / STEER_LEVELS;
+};
+
+// Which actions are held, from the keys currently down and the first gamepad
+export const readActions = (
+  pressedKeys: ReadonlySet<string>,
+  gamepad: GamepadState | null,
+  bindings: InputBindings
+): ActionState => {
+  const held = (action: InputAction) => isHeld(action, pressedKeys, gamepad, bindings);
+
+  const stickX = gamepad ? gamepad.stickX : 0;
+  return {
+    left: held('left') || (stickX < 0 && pastDeadZone(stickX, bindings.stickDeadZone)),
+    right: held('right') || (stickX > 0 && pastDeadZone(stickX, bindings.stickDeadZone)),
+    boost: held('boost'),
+    shoot: held('shoot'),
+    pause: held('pause')
+  };
+};
+
+// How hard to steer: full speed from keys and the d-pad, otherwise as far as the stick is pushed
+export const readSteer = (pressedKeys: ReadonlySet<string>, gamepad: GamepadState | null, bindings: InputBindings) => {
+  const digital = isHeld('left', pressedKeys, gamepad, bindings) || isHeld('right', pressedKeys, gamepad, bindings);
+  if (digital || !gamepad) return 1;
+  return stickSteer(gamepad.stickX, bindings.stickDeadZone) || 1;
+};
+
+export const actionsToFrameInput = (actions: ActionState, steer = 1): FrameInput => ({
+  left: actions.left,
+  right: actions.right,
+  down: actions.boost,
+  shoot: actions.shoot,
+  steer
+});
+
+// Bind a key to one of an action's slots. A key only ever does one thing, so it
+// is taken away from any other action it was bound to.
+export const bindKey = (bindings: InputBindings, action: InputAction, slot: number, code: string): InputBindings => {
+  const keys = {} as Record<InputAction, string[]>;
+  INPUT_ACTIONS.forEach(other => {
+    keys[other] = bindings.keys[other].filter(existing => existing !== code);
+  });
+
+  const slots = bindings.keys[action].map(existing => (existing === code ? '' : existing));
+  slots[Math.min(slot, slots.length)] = code;
+  keys[action] = slots.filter(existing => existing !== '');
+  return { ...bindings, keys };
+};
+
+// Short label for a key code, e.g. "A", "5", "←" or "Escape"
+export const keyLabel = (code: string) => {
+  const arrows: Record<string, string> = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+  if (arrows[code]) return arrows[code];
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit\d$/.test(code)) return code.slice(5);
+  return code;
+};
+
+// Saved bindings, falling back to the defaults for anything missing or invalid
+export const loadBindings = (storage: Pick<Storage, 'getItem'>): InputBindings => {
+  try {
+    const saved = JSON.parse(storage.getItem(BINDINGS_STORAGE_KEY) || '{}');
+    const keys = {} as Record<InputAction, string[]>;
+    const bound = new Set<string>();
+    INPUT_ACTIONS.forEach(action => {
+      const codes = saved.keys?.[action];
+      const valid = Array.isArray(codes) && codes.length <= KEYS_PER_ACTION &&
+        codes.every((code: unknown) => typeof code === 'string' && code !== '');
+
+      // A key only ever does one thing, as bindKey keeps it: the first action bound to it keeps it
+      keys[action] = (valid ? codes as string[] : DEFAULT_BINDINGS.keys[action]).filter(code => {
+        if (bound.has(code)) return false;
+        bound.add(code);
+        return true;
+      });
+    });
+
+    const deadZone = Number(saved.stickDeadZone);
+    return {
+      keys,
+      stickDeadZone: deadZone >= MIN_DEAD_ZONE && deadZone <= MAX_DEAD_ZONE ? deadZone : DEFAULT_BINDINGS.stickDeadZone
+    };
+  } catch (error) {
+    return DEFAULT_BINDINGS;
+  }
+};
+
+export const saveBindings = (storage: Pick<Storage, 'setItem'>, bindings: InputBindings) => {
+  storage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(bindings));
+};
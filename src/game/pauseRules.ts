@@ -0,0 +1,18 @@
+// Pausing. The simulation never advances while a run is paused, so a pause
+// can't change the outcome of a jump, but pausing over and over would let a
+// player stop and study every moment. Ranked runs therefore get a few pauses,
+// each recorded in the input log, and every resume starts with a countdown.
+
+export const MAX_RANKED_PAUSES = 3;
+export const RESUME_COUNTDOWN_SECONDS = 3;
+
+// A player pressing pause, or the page going to the background
+export type PauseReason = 'manual' | 'hidden';
+
+export const pausesLeft = (pausesUsed: number, ranked: boolean) =>
+  ranked ? Math.max(0, MAX_RANKED_PAUSES - pausesUsed) : Infinity;
+
+// Leaving the page always pauses, since the game can't keep running in the
+// background. It still counts, so a ranked run over the limit is no longer ranked.
+export const canPause = (reason: PauseReason, pausesUsed: number, ranked: boolean) =>
+  reason === 'hidden' || pausesLeft(pausesUsed, ranked) > 0;
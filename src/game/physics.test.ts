@@ -0,0 +1,79 @@
+import { GRAVITY, MOVE_SPEED, PLAYER_HEIGHT, PLAYER_WIDTH, WORLD_WIDTH } from './constants';
+import { findLandingPlatform, integratePlayer, overlaps } from './physics';
+import { SimPlatform, SimPlayer } from './types';
+
+const noInput = { left: false, right: false, down: false, shoot: false, steer: 1 };
+
+const makePlayer = (overrides: Partial<SimPlayer> = {}): SimPlayer => ({
+  x: 400, y: 300, vx: 0, vy: 0, facingLeft: false, ...overrides
+});
+
+const makePlatform = (x: number, y: number): SimPlatform => ({
+  id: 1, x, y, type: 'regular', direction: 1, speed: 0, originY: y, solid: true, touchedAt: null, phase: 0
+});
+
+describe('integratePlayer', () => {
+  it('applies gravity before moving the player', () => {
+    const player = makePlayer();
+    integratePlayer(player, noInput, 0.1);
+    expect(player.vy).toBeCloseTo(GRAVITY * 0.1);
+    expect(player.y).toBeCloseTo(300 + GRAVITY * 0.1 * 0.1);
+  });
+
+  it('moves and faces the direction of input', () => {
+    const player = makePlayer();
+    integratePlayer(player, { ...noInput, left: true }, 0.1);
+    expect(player.vx).toBe(-MOVE_SPEED);
+    expect(player.facingLeft).toBe(true);
+
+    integratePlayer(player, { ...noInput, right: true }, 0.1);
+    expect(player.vx).toBe(MOVE_SPEED);
+    expect(player.facingLeft).toBe(false);
+
+    integratePlayer(player, { ...noInput, right: true, steer: 0.25 }, 0.1);
+    expect(player.vx).toBe(MOVE_SPEED * 0.25);
+  });
+
+  it('keeps the player inside the world', () => {
+    const player = makePlayer({ x: WORLD_WIDTH - PLAYER_WIDTH / 2 });
+    integratePlayer(player, { ...noInput, right: true }, 0.1);
+    expect(player.x).toBe(WORLD_WIDTH - PLAYER_WIDTH / 2);
+  });
+});
+
+describe('findLandingPlatform', () => {
+  const platform = makePlatform(400, 400);
+  const platformTop = 400 - 14;
+
+  it('lands when the feet cross the platform top while falling', () => {
+    const player = makePlayer({ y: platformTop - PLAYER_HEIGHT / 2 + 5, vy: 300 });
+    expect(findLandingPlatform(player, platformTop - 5, [platform])).toBe(platform);
+  });
+
+  it('ignores platforms while rising', () => {
+    const player = makePlayer({ y: platformTop - PLAYER_HEIGHT / 2 + 5, vy: -300 });
+    expect(findLandingPlatform(player, platformTop - 5, [platform])).toBeUndefined();
+  });
+
+  it('ignores platforms the player was already below', () => {
+    const player = makePlayer({ y: platformTop, vy: 300 });
+    expect(findLandingPlatform(player, platformTop + 10, [platform])).toBeUndefined();
+  });
+
+  it('ignores platforms that are not under the player', () => {
+    const player = makePlayer({ x: 100, y: platformTop - PLAYER_HEIGHT / 2 + 5, vy: 300 });
+    expect(findLandingPlatform(player, platformTop - 5, [platform])).toBeUndefined();
+  });
+
+  it('ignores platforms that are not solid', () => {
+    const player = makePlayer({ y: platformTop - PLAYER_HEIGHT / 2 + 5, vy: 300 });
+    expect(findLandingPlatform(player, platformTop - 5, [{ ...platform, solid: false }])).toBeUndefined();
+  });
+});
+
+describe('overlaps', () => {
+  it('detects overlapping boxes', () => {
+    expect(overlaps(0, 0, 10, 10, 9, 0, 10, 10)).toBe(true);
+    expect(overlaps(0, 0, 10, 10, 10, 0, 10, 10)).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  GRAVITY,
+  MOVE_SPEED,
+  PLATFORM_HEIGHT,
+  PLATFORM_WIDTH,
+  PLAYER_HEIGHT,
+  PLAYER_WIDTH,
+  WORLD_WIDTH
+} from './constants';
+import { FrameInput, SimPlatform, SimPlayer } from './types';
+
+// Axis-aligned overlap test between two centred boxes
+export const overlaps = (
+  ax: number, ay: number, aw: number, ah: number,
+  bx: number, by: number, bw: number, bh: number
+) => Math.abs(ax - bx) * 2 < aw + bw && Math.abs(ay - by) * 2 < ah + bh;
+
+// Apply input, gravity and velocity to the player for one step of dt seconds
+export const integratePlayer = (player: SimPlayer, input: FrameInput, dt: number) => {
+  if (input.left) {
+    player.vx = -MOVE_SPEED * input.steer;
+    player.facingLeft = true;
+  } else if (input.right) {
+    player.vx = MOVE_SPEED * input.steer;
+    player.facingLeft = false;
+  } else {
+    player.vx = 0;
+  }
+
+  player.vy += GRAVITY * dt;
+  player.x += player.vx * dt;
+  player.y += player.vy * dt;
+
+  // The player collides with the sides of the world
+  player.x = Math.min(WORLD_WIDTH - PLAYER_WIDTH / 2, Math.max(PLAYER_WIDTH / 2, player.x));
+};
+
+// Find the platform the player landed on this step, if any. Only counts when
+// falling and the player's feet crossed the platform top during the step.
+export const findLandingPlatform = (
+  player: SimPlayer,
+  previousBottom: number,
+  platforms: SimPlatform[]
+) => {
+  if (player.vy <= 0) return undefined;
+
+  const bottom = player.y + PLAYER_HEIGHT / 2;
+  return platforms.find(platform => {
+    if (!platform.solid) return false;
+    const top = platform.y - PLATFORM_HEIGHT / 2;
+    return previousBottom <= top &&
+      bottom >= top &&
+      Math.abs(player.x - platform.x) * 2 < PLAYER_WIDTH + PLATFORM_WIDTH;
+  });
+};
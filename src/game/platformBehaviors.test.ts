@@ -0,0 +1,85 @@
+import {
+  CRUMBLE_GONE_TIME,
+  CRUMBLE_SOLID_TIME,
+  DISAPPEAR_DELAY,
+  MAX_PLATFORM_X,
+  MIN_PLATFORM_X,
+  PLATFORM_BEHAVIORS,
+  VERTICAL_RANGE
+} from './platformBehaviors';
+import { PlatformType, SimPlatform } from './types';
+
+const makePlatform = (type: PlatformType, overrides: Partial<SimPlatform> = {}): SimPlatform => ({
+  id: 1, x: 400, y: 300, type, direction: 1, speed: 150, originY: 300, solid: true, touchedAt: null, phase: 0, ...overrides
+});
+
+// Run a platform's update for a number of 100ms steps starting at sim time 0
+const run = (platform: SimPlatform, steps: number) => {
+  const update = PLATFORM_BEHAVIORS[platform.type].update;
+  for (let i = 1; i <= steps; i++) {
+    if (update && !update(platform, 0.1, i * 100)) return false;
+  }
+  return true;
+};
+
+describe('platform behaviors', () => {
+  it('moves horizontal movers across the whole world', () => {
+    const platform = makePlatform('moving', { x: MAX_PLATFORM_X - 10 });
+    run(platform, 1);
+    expect(platform.x).toBe(MAX_PLATFORM_X);
+    expect(platform.direction).toBe(-1);
+
+    let lowest = platform.x;
+    for (let i = 0; i < 60; i++) {
+      run(platform, 1);
+      lowest = Math.min(lowest, platform.x);
+    }
+    expect(lowest).toBe(MIN_PLATFORM_X);
+  });
+
+  it('moves vertical movers around where they were placed', () => {
+    const platform = makePlatform('vertical', { speed: 100 });
+    const ys: number[] = [];
+    for (let i = 0; i < 40; i++) {
+      run(platform, 1);
+      ys.push(platform.y);
+    }
+    expect(Math.max(...ys)).toBe(300 + VERTICAL_RANGE);
+    expect(Math.min(...ys)).toBe(300 - VERTICAL_RANGE);
+    expect(platform.x).toBe(400);
+  });
+
+  it('only starts fading disappearing platforms once they are touched', () => {
+    const behavior = PLATFORM_BEHAVIORS.disappearing;
+    const platform = makePlatform('disappearing');
+    expect(run(platform, 50)).toBe(true);
+
+    behavior.onLand?.(platform, 1000);
+    behavior.onLand?.(platform, 1200);
+    expect(platform.touchedAt).toBe(1000);
+    expect(behavior.alpha?.(platform, 1000 + DISAPPEAR_DELAY / 2)).toBeCloseTo(0.5);
+    expect(behavior.update?.(platform, 0.1, 1000 + DISAPPEAR_DELAY)).toBe(false);
+  });
+
+  it('crumbles and rebuilds crumbling platforms on a cycle', () => {
+    const platform = makePlatform('crumbling');
+    const update = PLATFORM_BEHAVIORS.crumbling.update!;
+
+    update(platform, 0.1, CRUMBLE_SOLID_TIME - 1);
+    expect(platform.solid).toBe(true);
+    update(platform, 0.1, CRUMBLE_SOLID_TIME);
+    expect(platform.solid).toBe(false);
+    update(platform, 0.1, CRUMBLE_SOLID_TIME + CRUMBLE_GONE_TIME);
+    expect(platform.solid).toBe(true);
+
+    // The phase shifts where in the cycle a platform is
+    const shifted = makePlatform('crumbling', { phase: 1 });
+    update(shifted, 0.1, CRUMBLE_SOLID_TIME - 1);
+    expect(shifted.solid).toBe(false);
+  });
+
+  it('gives every type a texture of its own', () => {
+    const textures = Object.values(PLATFORM_BEHAVIORS).map(behavior => behavior.texture);
+    expect(new Set(textures).size).toBe(textures.length);
+  });
+});
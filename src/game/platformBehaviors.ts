@@ -0,0 +1,152 @@
+import { BOUNCE_VELOCITY, PLATFORM_WIDTH, WORLD_WIDTH } from './constants';
+import { SeededRandom } from './random';
+import { PlatformType, SimPlatform } from './types';
+
+// What every kind of platform does and how it looks. The simulation and the
+// renderer look a platform's behavior up here instead of switching on its type,
+// so a new kind of platform is one more entry in PLATFORM_BEHAVIORS.
+
+export const SPRING_VELOCITY = -1150;
+export const DISAPPEAR_DELAY = 1000; // ms a disappearing platform lasts once touched
+export const CRUMBLE_SOLID_TIME = 2500; // ms a crumbling platform holds together
+export const CRUMBLE_GONE_TIME = 1500; // ms before it forms again
+export const CRUMBLE_WARNING = 600; // ms of flickering before it crumbles
+export const VERTICAL_RANGE = 90; // How far vertical movers travel above and below where they were placed
+
+// Horizontal movers use the whole width of the world
+export const MIN_PLATFORM_X = PLATFORM_WIDTH / 2;
+export const MAX_PLATFORM_X = WORLD_WIDTH - PLATFORM_WIDTH / 2;
+
+export interface PlatformBehavior {
+  texture: string;
+  tint: number | null;
+  bounceVelocity: number;
+  breaksOnLanding: boolean;
+  // Stays put to be bounced on again, so it can be part of the guaranteed path up
+  reliable: boolean;
+  // How far the platform can move from where it was placed, each way
+  travel?: { x: number; y: number };
+  // Set up movement and timers on a new platform
+  init?: (platform: SimPlatform, rng: SeededRandom) => void;
+  onLand?: (platform: SimPlatform, time: number) => void;
+  // Advance by dt seconds at sim time ms. Returns false once the platform is gone
+  update?: (platform: SimPlatform, dt: number, time: number) => boolean;
+  // Opacity to draw the platform with at sim time ms
+  alpha?: (platform: SimPlatform, time: number) => number;
+}
+
+const CRUMBLE_CYCLE = CRUMBLE_SOLID_TIME + CRUMBLE_GONE_TIME;
+
+// Ms left before a crumbling platform falls apart, or 0 while it is crumbled
+export const timeUntilCrumble = (platform: SimPlatform, time: number) =>
+  Math.max(0, CRUMBLE_SOLID_TIME - (time + platform.phase) % CRUMBLE_CYCLE);
+
+const randomDirection = (rng: SeededRandom) => (rng.next() > 0.5 ? 1 : -1);
+
+const regular: PlatformBehavior = {
+  texture: 'platform',
+  tint: null,
+  bounceVelocity: BOUNCE_VELOCITY,
+  breaksOnLanding: false,
+  reliable: true
+};
+
+export const PLATFORM_BEHAVIORS: Record<PlatformType, PlatformBehavior> = {
+  regular,
+
+  moving: {
+    ...regular,
+    texture: 'platform-moving',
+    tint: 0x0088ff,
+    travel: { x: WORLD_WIDTH, y: 0 },
+    init: (platform, rng) => {
+      platform.direction = randomDirection(rng);
+      platform.speed = rng.between(120, 200);
+    },
+    // Bounce between the edges of the world
+    update: (platform, dt) => {
+      platform.x += platform.direction * platform.speed * dt;
+      if (platform.x <= MIN_PLATFORM_X) {
+        platform.x = MIN_PLATFORM_X;
+        platform.direction = 1;
+      } else if (platform.x >= MAX_PLATFORM_X) {
+        platform.x = MAX_PLATFORM_X;
+        platform.direction = -1;
+      }
+      return true;
+    }
+  },
+
+  vertical: {
+    ...regular,
+    texture: 'platform-vertical',
+    tint: 0x00bbaa,
+    travel: { x: 0, y: VERTICAL_RANGE },
+    init: (platform, rng) => {
+      platform.direction = randomDirection(rng);
+      platform.speed = rng.between(60, 110);
+    },
+    update: (platform, dt) => {
+      platform.y += platform.direction * platform.speed * dt;
+      if (platform.y <= platform.originY - VERTICAL_RANGE) {
+        platform.y = platform.originY - VERTICAL_RANGE;
+        platform.direction = 1;
+      } else if (platform.y >= platform.originY + VERTICAL_RANGE) {
+        platform.y = platform.originY + VERTICAL_RANGE;
+        platform.direction = -1;
+      }
+      return true;
+    }
+  },
+
+  // Disappear after one bounce
+  breakable: {
+    ...regular,
+    texture: 'platform-breakable',
+    tint: 0xff8800,
+    breaksOnLanding: true,
+    reliable: false
+  },
+
+  // Fade out once touched, and can be bounced on until they are gone
+  disappearing: {
+    ...regular,
+    texture: 'platform-disappearing',
+    tint: 0xccccff,
+    reliable: false,
+    onLand: (platform, time) => {
+      if (platform.touchedAt === null) platform.touchedAt = time;
+    },
+    update: (platform, dt, time) => platform.touchedAt === null || time < platform.touchedAt + DISAPPEAR_DELAY,
+    alpha: (platform, time) =>
+      platform.touchedAt === null ? 1 : Math.max(0, 1 - (time - platform.touchedAt) / DISAPPEAR_DELAY)
+  },
+
+  spring: {
+    ...regular,
+    texture: 'platform-spring',
+    tint: 0x33cc33,
+    bounceVelocity: SPRING_VELOCITY
+  },
+
+  // Fall apart and form again on a fixed cycle, whether touched or not
+  crumbling: {
+    ...regular,
+    texture: 'platform-crumbling',
+    tint: 0x996633,
+    reliable: false,
+    // Offset each platform's cycle so neighbours don't crumble together
+    init: (platform, rng) => {
+      platform.phase = rng.between(0, CRUMBLE_CYCLE - 1);
+    },
+    update: (platform, dt, time) => {
+      platform.solid = timeUntilCrumble(platform, time) > 0;
+      return true;
+    },
+    alpha: (platform, time) => {
+      const left = timeUntilCrumble(platform, time);
+      if (left === 0) return 0.2;
+      return left < CRUMBLE_WARNING && Math.floor(time / 100) % 2 === 0 ? 0.5 : 1;
+    }
+  }
+};
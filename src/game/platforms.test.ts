@@ -0,0 +1,72 @@
+import { GENERATION_MARGIN } from './constants';
+import { NORMAL_DIFFICULTY, difficultyAt } from './difficulty';
+import { PLATFORM_BEHAVIORS } from './platformBehaviors';
+import { generatePlatforms, pickPlatformType } from './platforms';
+import { canReach } from './reachability';
+import { createSimulation } from './simulation';
+import { SimPlatform } from './types';
+
+const band = (levelScore: number) => difficultyAt(NORMAL_DIFFICULTY, levelScore);
+
+describe('platform generation', () => {
+  it('only introduces special platforms past score 20', () => {
+    expect(pickPlatformType(band(10), 0)).toBe('regular');
+    expect(pickPlatformType(band(30), 0.1)).toBe('moving');
+    expect(pickPlatformType(band(30), 0.25)).toBe('breakable');
+    expect(pickPlatformType(band(30), 0.32)).toBe('spring');
+    expect(pickPlatformType(band(30), 0.5)).toBe('regular');
+  });
+
+  it('mixes in the harder platform types higher up', () => {
+    expect(pickPlatformType(band(60), 0.47)).toBe('vertical');
+    expect(pickPlatformType(band(150), 0.4)).toBe('breakable');
+    expect(pickPlatformType(band(150), 0.6)).toBe('disappearing');
+    expect(pickPlatformType(band(150), 0.7)).toBe('crumbling');
+    expect(pickPlatformType(band(150), 0.9)).toBe('regular');
+  });
+
+  it('builds the same tower for the same seed', () => {
+    const layout = (seed: number) => createSimulation(seed).platforms.map(({ x, y, type, speed }) => [x, y, type, speed]);
+    expect(layout(42)).toEqual(layout(42));
+    expect(layout(42)).not.toEqual(layout(43));
+  });
+
+  it('adds a layer above the highest platform once the camera gets close', () => {
+    const state = createSimulation(1);
+    const highest = Math.min(...state.platforms.map(platform => platform.y));
+
+    const before = state.platforms.length;
+    generatePlatforms(state);
+    expect(state.platforms.length).toBe(before);
+
+    state.cameraY = highest + GENERATION_MARGIN - 1;
+    generatePlatforms(state);
+
+    const added = state.platforms.slice(before);
+    expect(added.length).toBeGreaterThanOrEqual(band(0).platformsPerLayer);
+    added.forEach(platform => expect(platform.y).toBeLessThan(highest));
+  });
+
+  it('always leaves a path of reliable platforms within reach up the tower', () => {
+    for (const seed of [1, 2, 3, 42, 1234]) {
+      const state = createSimulation(seed);
+      while (state.cameraY > -40000) {
+        state.cameraY -= 400;
+        generatePlatforms(state);
+      }
+
+      // Climb as high as possible from the start platform, hopping only between reliable platforms
+      const reliable = state.platforms.filter(platform => PLATFORM_BEHAVIORS[platform.type].reliable);
+      const reached: SimPlatform[] = [state.platforms[0]];
+      for (let i = 0; i < reached.length; i++) {
+        for (const to of reliable) {
+          if (!reached.includes(to) && canReach(reached[i], to)) reached.push(to);
+        }
+      }
+
+      const top = Math.min(...state.platforms.map(platform => platform.y));
+      const highestReached = Math.min(...reached.map(platform => platform.originY));
+      expect(highestReached - top).toBeLessThan(NORMAL_DIFFICULTY.bands[NORMAL_DIFFICULTY.bands.length - 1].gap.max);
+    }
+  });
+});
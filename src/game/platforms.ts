@@ -0,0 +1,169 @@
+import { GENERATION_MARGIN } from './constants';
+import { placeCoins } from './coins';
+import { DifficultyBand, difficultyAt } from './difficulty';
+import { isAvoidable, placeEnemy } from './enemies';
+import { MAX_PLATFORM_X, MIN_PLATFORM_X, PLATFORM_BEHAVIORS } from './platformBehaviors';
+import { SeededRandom } from './random';
+import { MAX_SAFE_GAP, canReach, horizontalReach } from './reachability';
+import { levelScoreAt } from './scoring';
+import { PlatformType, SimPlatform, SimState } from './types';
+
+// Platform layout. How hard each layer is comes from the state's difficulty
+// profile. All randomness comes from the state's seeded platform stream so every
+// run on the same seed sees the same tower.
+
+// Platform type for a uniform roll in [0, 1)
+export const pickPlatformType = (band: DifficultyBand, rnd: number): PlatformType => {
+  let total = 0;
+  for (const [type, chance] of band.platformMix) {
+    total += chance;
+    if (rnd < total) return type;
+  }
+  return 'regular';
+};
+
+// More variance in horizontal positioning for the wide screen
+export const pickPlatformX = (rng: SeededRandom) => {
+  if (rng.next() < 0.4) {
+    // Place near edges 40% of the time
+    return rng.next() < 0.5 ? rng.between(50, 200) : rng.between(600, 750);
+  }
+  // Otherwise place more centrally but with variance
+  return rng.between(200, 600);
+};
+
+export const addPlatform = (state: SimState, x: number, y: number, type: PlatformType) => {
+  const platform: SimPlatform = {
+    id: state.nextId++, x, y, type, direction: 1, speed: 0, originY: y, solid: true, touchedAt: null, phase: 0
+  };
+  PLATFORM_BEHAVIORS[type].init?.(platform, state.platformRng);
+
+  state.platforms.push(platform);
+  return platform;
+};
+
+// Keep a path of reliable platforms, each in reach of the one before, up to near
+// the top of the tower. Where the layout leaves a gap in it, a platform of the new
+// layer in reach becomes a regular one, or failing that a regular platform is
+// added in reach. Returns the platforms added.
+const extendPath = (state: SimState, band: DifficultyBand, layer: SimPlatform[]) => {
+  let from = state.pathTop;
+  if (!from) return [];
+
+  const rng = state.platformRng;
+  const top = Math.min(...state.platforms.map(platform => platform.originY));
+  const bridges: SimPlatform[] = [];
+
+  for (;;) {
+    let next: SimPlatform | undefined;
+    for (const platform of state.platforms) {
+      if (platform.originY >= from.originY || !PLATFORM_BEHAVIORS[platform.type].reliable) continue;
+      if (!canReach(from, platform)) continue;
+      if (!next || platform.originY < next.originY) next = platform;
+    }
+
+    // Failing that, turn a platform in reach into a regular one. Only from the new
+    // layer, which hasn't been drawn yet
+    if (!next) {
+      for (const platform of layer) {
+        if (platform.originY >= from.originY || !canReach(from, platform)) continue;
+        if (!next || platform.originY < next.originY) next = platform;
+      }
+      if (next) {
+        next.type = 'regular';
+        next.solid = true;
+      }
+    }
+
+    if (!next) {
+      // Close enough to the top for the next layer to carry on from here
+      if (from.originY - top < band.gap.max) break;
+
+      const gap = rng.between(band.gap.min, Math.min(band.gap.max, MAX_SAFE_GAP));
+      const reach = horizontalReach(gap);
+      const x = rng.between(
+        Math.ceil(Math.max(MIN_PLATFORM_X, from.x - reach)),
+        Math.floor(Math.min(MAX_PLATFORM_X, from.x + reach))
+      );
+      const fromBottom = from.originY + (PLATFORM_BEHAVIORS[from.type].travel?.y ?? 0);
+      next = addPlatform(state, x, fromBottom - gap, 'regular');
+      bridges.push(next);
+    }
+
+    from = next;
+  }
+
+  state.pathTop = from;
+  return bridges;
+};
+
+export const createInitialPlatforms = (state: SimState) => {
+  // Start with a platform at the bottom
+  state.pathTop = addPlatform(state, 400, 550, 'regular');
+
+  // Create initial platforms going much higher so the first screens are already filled
+  for (let i = 0; i < 25; i++) {
+    // Rounded so the layout doesn't depend on the engine's Math.sin precision
+    const x = Math.round(400 + Math.sin(i * 0.5) * 300);
+    const y = 500 - (i * 80);
+
+    let type: PlatformType = 'regular';
+    if (i > 3) {
+      const rnd = state.platformRng.next();
+      if (rnd < 0.25) type = 'moving';
+      else if (rnd < 0.4) type = 'breakable';
+    }
+
+    addPlatform(state, x, y, type);
+  }
+
+  extendPath(state, difficultyAt(state.difficulty, 0), state.platforms);
+};
+
+// Generate a new layer above the highest platform once it comes within GENERATION_MARGIN of the view
+export const generatePlatforms = (state: SimState) => {
+  let highest: SimPlatform | undefined;
+  for (const platform of state.platforms) {
+    if (!highest || platform.y < highest.y) highest = platform;
+  }
+
+  const highestY = highest ? highest.y : Number.MAX_SAFE_INTEGER;
+  if (highestY <= state.cameraY - GENERATION_MARGIN) return;
+
+  const band = difficultyAt(state.difficulty, levelScoreAt(highestY));
+  const rng = state.platformRng;
+  const added: SimPlatform[] = [];
+
+  let y = highestY;
+  for (let i = 0; i < band.platformsPerLayer; i++) {
+    y -= rng.between(band.gap.min, band.gap.max);
+    const x = pickPlatformX(rng);
+    const type = pickPlatformType(band, rng.next());
+
+    added.push(addPlatform(state, x, y, type));
+  }
+
+  const bridges = extendPath(state, band, added);
+  added.push(...bridges);
+
+  // A bridge can land in the way of an enemy placed with the layer below
+  if (bridges.length > 0) {
+    state.enemies = state.enemies.filter(enemy => isAvoidable(enemy.kind, enemy.originX, enemy.y, state.platforms));
+  }
+
+  placeCoins(state, added);
+
+  // Enemies go in the gaps of the new layer, once all of its platforms are known
+  const layer = [...(highest ? [highest] : []), ...added].sort((a, b) => b.y - a.y);
+  for (let i = 1; i < layer.length; i++) {
+    placeEnemy(state, layer[i - 1], layer[i], band);
+  }
+};
+
+// Let each platform's behavior move it and run its timers, dropping the ones that are gone
+export const updatePlatforms = (state: SimState, dt: number) => {
+  state.platforms = state.platforms.filter(platform => {
+    const update = PLATFORM_BEHAVIORS[platform.type].update;
+    return !update || update(platform, dt, state.time);
+  });
+};
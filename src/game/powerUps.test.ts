@@ -0,0 +1,103 @@
+import { BOOST_VELOCITY } from './constants';
+import { resolveEnemyContact } from './enemies';
+import { POWER_UPS, collectPowerUps, pickPowerUpKind, spawnPowerUp, updateActivePowerUp } from './powerUps';
+import { createSimulation } from './simulation';
+import { PowerUpKind, SimEvent } from './types';
+
+// A fresh run with a power-up item of the given kind right on the player
+const stateWithItem = (kind: PowerUpKind) => {
+  const state = createSimulation(1);
+  state.powerUpItems = [{ id: 70, kind, x: state.player.x, y: state.player.y, expiresAt: 10000 }];
+  return state;
+};
+
+describe('power-up spawning', () => {
+  it('picks among the due power-ups by weight', () => {
+    expect(pickPowerUpKind(['boost'], 0.99)).toBe('boost');
+    expect(pickPowerUpKind(['boost', 'jetpack'], 0.99)).toBe('jetpack');
+    expect(pickPowerUpKind(['boost', 'jetpack'], 0)).toBe('boost');
+  });
+
+  it('offers each power-up on its own schedule, one item at a time', () => {
+    const state = createSimulation(1);
+    const events: SimEvent[] = [];
+    spawnPowerUp(state, events);
+    expect(state.powerUpItems).toEqual([]);
+
+    state.score = POWER_UPS.boost.from;
+    spawnPowerUp(state, events);
+    expect(state.powerUpItems.length).toBe(1);
+    expect(events).toEqual([{ type: 'powerUpSpawned', itemId: state.powerUpItems[0].id, kind: 'boost' }]);
+    expect(state.nextPowerUpAt.boost).toBe(POWER_UPS.boost.from + POWER_UPS.boost.every);
+
+    // Magnet is due too, but waits until the boost item is gone
+    state.score = POWER_UPS.magnet.from;
+    spawnPowerUp(state, events);
+    expect(events.length).toBe(1);
+
+    state.powerUpItems = [];
+    spawnPowerUp(state, events);
+    expect(events[1]).toEqual({ type: 'powerUpSpawned', itemId: state.powerUpItems[0].id, kind: 'magnet' });
+  });
+});
+
+describe('active power-ups', () => {
+  it('applies the launch on pickup and ends after its duration', () => {
+    const state = stateWithItem('boost');
+    const events: SimEvent[] = [];
+    collectPowerUps(state, events);
+    expect(events).toEqual([{ type: 'powerUpCollected', itemId: 70, kind: 'boost' }]);
+    expect(state.player.vy).toBe(BOOST_VELOCITY);
+    expect(state.activePowerUp).toEqual({ kind: 'boost', endsAt: POWER_UPS.boost.duration });
+
+    state.time = POWER_UPS.boost.duration;
+    updateActivePowerUp(state, events);
+    expect(state.activePowerUp).toBeNull();
+    expect(events).toContainEqual({ type: 'powerUpEnded', kind: 'boost' });
+  });
+
+  it('leaves items in place while another power-up is active', () => {
+    const state = stateWithItem('jetpack');
+    state.activePowerUp = { kind: 'magnet', endsAt: 5000 };
+    collectPowerUps(state, []);
+    expect(state.powerUpItems.length).toBe(1);
+    expect(state.activePowerUp.kind).toBe('magnet');
+
+    state.activePowerUp = null;
+    collectPowerUps(state, []);
+    expect(state.powerUpItems).toEqual([]);
+    expect(state.activePowerUp).toEqual({ kind: 'jetpack', endsAt: POWER_UPS.jetpack.duration });
+  });
+
+  it('holds the lift of flying power-ups every step', () => {
+    const state = stateWithItem('jetpack');
+    collectPowerUps(state, []);
+    state.player.vy = 300;
+    updateActivePowerUp(state, []);
+    expect(state.player.vy).toBe(POWER_UPS.jetpack.liftVelocity);
+  });
+
+  it('flies through enemies while invulnerable', () => {
+    const state = createSimulation(1);
+    state.activePowerUp = { kind: 'propeller', endsAt: 5000 };
+    state.enemies = [{ id: 50, kind: 'hover', x: state.player.x, y: state.player.y, originX: state.player.x, direction: 1, speed: 0 }];
+    expect(resolveEnemyContact(state, state.player.y, [])).toBe(false);
+    expect(state.enemies.length).toBe(1);
+  });
+
+  it('absorbs one enemy hit with a shield', () => {
+    const state = createSimulation(1);
+    state.activePowerUp = { kind: 'shield', endsAt: 5000 };
+    const enemy = { id: 50, kind: 'hover' as const, x: state.player.x, y: state.player.y, originX: state.player.x, direction: 1, speed: 0 };
+    state.enemies = [enemy, { ...enemy, id: 51 }];
+
+    const events: SimEvent[] = [];
+    expect(resolveEnemyContact(state, state.player.y, events)).toBe(true);
+    expect(events).toEqual([
+      { type: 'shieldAbsorbed', enemyId: 50 },
+      { type: 'powerUpEnded', kind: 'shield' },
+      { type: 'enemyHit', enemyId: 51 }
+    ]);
+    expect(state.activePowerUp).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  BOOST_DURATION,
+  BOOST_VELOCITY,
+  PLAYER_HEIGHT,
+  PLAYER_WIDTH,
+  POWER_UP_ITEM_HEIGHT,
+  POWER_UP_ITEM_WIDTH,
+  POWER_UP_LIFETIME
+} from './constants';
+import { overlaps } from './physics';
+import { PowerUpKind, SimEvent, SimPowerUpItem, SimState } from './types';
+
+// Power-ups the player can pick up. Each one declares when it is offered, and
+// items spawn one at a time: the next can only appear once the last one was
+// picked up, expired or dropped out of view. Only one power-up is active at a
+// time. Everything a power-up does and looks like is declared in POWER_UPS.
+
+export interface PowerUpDefinition {
+  label: string; // Shown when collected and on the timer
+  texture: string;
+  tint: number | null;
+  trail: boolean; // Leave a trail of particles while active
+  duration: number; // ms
+  // Spawn rules: offered at `from` points, then again `every` points after each
+  // time it was offered. When several are due at once, one is picked by weight
+  // and the rest wait their turn
+  from: number;
+  every: number;
+  weight: number;
+  launchVelocity?: number; // Set once on pickup
+  liftVelocity?: number; // Held every step while active
+  invulnerable?: boolean; // Enemies can't touch the player
+  shield?: boolean; // Absorbs one enemy hit, which ends the power-up
+  magnetRadius?: number; // Pulls in coins within this distance
+}
+
+export const POWER_UPS: Record<PowerUpKind, PowerUpDefinition> = {
+  // The original paper roll: one massive kick
+  boost: {
+    label: 'SUPER POOPER BOOST!',
+    texture: 'boost-item',
+    tint: null,
+    trail: true,
+    duration: BOOST_DURATION,
+    from: 100,
+    every: 300,
+    weight: 3,
+    launchVelocity: BOOST_VELOCITY
+  },
+  magnet: {
+    label: 'MAGNET',
+    texture: 'power-up',
+    tint: 0xff33aa,
+    trail: false,
+    duration: 8000,
+    from: 150,
+    every: 400,
+    weight: 2,
+    magnetRadius: 300
+  },
+  propeller: {
+    label: 'PROPELLER HAT',
+    texture: 'power-up',
+    tint: 0x33aaff,
+    trail: false,
+    duration: 4000,
+    from: 200,
+    every: 500,
+    weight: 2,
+    liftVelocity: -500,
+    invulnerable: true
+  },
+  shield: {
+    label: 'SHIELD',
+    texture: 'power-up',
+    tint: 0x66ffcc,
+    trail: false,
+    duration: 10000,
+    from: 300,
+    every: 600,
+    weight: 2,
+    shield: true
+  },
+  jetpack: {
+    label: 'JETPACK',
+    texture: 'power-up',
+    tint: 0xff5522,
+    trail: true,
+    duration: 3000,
+    from: 500,
+    every: 800,
+    weight: 1,
+    liftVelocity: -1000,
+    invulnerable: true
+  }
+};
+
+// The definition of the power-up in effect, if any
+export const activePowerUp = (state: SimState) =>
+  state.activePowerUp ? POWER_UPS[state.activePowerUp.kind] : null;
+
+const POWER_UP_KINDS = Object.keys(POWER_UPS) as PowerUpKind[];
+
+// The score each power-up is first offered at
+export const createPowerUpSchedule = () => POWER_UP_KINDS.reduce(
+  (schedule, kind) => ({ ...schedule, [kind]: POWER_UPS[kind].from }),
+  {} as Record<PowerUpKind, number>
+);
+
+// Power-up kind for a uniform roll in [0, 1), weighted among the given kinds
+export const pickPowerUpKind = (kinds: PowerUpKind[], rnd: number): PowerUpKind => {
+  const total = kinds.reduce((sum, kind) => sum + POWER_UPS[kind].weight, 0);
+
+  let roll = rnd * total;
+  for (const kind of kinds) {
+    roll -= POWER_UPS[kind].weight;
+    if (roll < 0) return kind;
+  }
+  return kinds[kinds.length - 1];
+};
+
+// Spawn a power-up that is due, unless an item is still waiting to be picked up
+export const spawnPowerUp = (state: SimState, events: SimEvent[]) => {
+  if (state.powerUpItems.length > 0) return;
+
+  const due = POWER_UP_KINDS.filter(kind => state.score >= state.nextPowerUpAt[kind]);
+  if (due.length === 0) return;
+
+  const kind = pickPowerUpKind(due, state.powerUpRng.next());
+  state.nextPowerUpAt[kind] = state.score + POWER_UPS[kind].every;
+
+  const item: SimPowerUpItem = {
+    id: state.nextId++,
+    kind,
+    x: state.powerUpRng.between(200, 600),
+    y: state.player.y - 200, // Just above the player
+    expiresAt: state.time + POWER_UP_LIFETIME
+  };
+  state.powerUpItems.push(item);
+  events.push({ type: 'powerUpSpawned', itemId: item.id, kind: item.kind });
+};
+
+export const collectPowerUps = (state: SimState, events: SimEvent[]) => {
+  // Power-ups don't stack: items stay where they are until the active one ends
+  if (state.activePowerUp !== null) return;
+
+  const player = state.player;
+  const collected = state.powerUpItems.find(item => overlaps(
+    player.x, player.y, PLAYER_WIDTH, PLAYER_HEIGHT,
+    item.x, item.y, POWER_UP_ITEM_WIDTH, POWER_UP_ITEM_HEIGHT
+  ));
+  if (!collected) return;
+
+  state.powerUpItems = state.powerUpItems.filter(item => item !== collected);
+
+  const definition = POWER_UPS[collected.kind];
+  state.activePowerUp = { kind: collected.kind, endsAt: state.time + definition.duration };
+  if (definition.launchVelocity !== undefined) player.vy = definition.launchVelocity;
+  events.push({ type: 'powerUpCollected', itemId: collected.id, kind: collected.kind });
+};
+
+// Apply the active power-up's lift for this step, and end it once its time is up
+export const updateActivePowerUp = (state: SimState, events: SimEvent[]) => {
+  const active = state.activePowerUp;
+  if (!active) return;
+
+  if (state.time >= active.endsAt) {
+    endPowerUp(state, events);
+    return;
+  }
+
+  const lift = POWER_UPS[active.kind].liftVelocity;
+  if (lift !== undefined) state.player.vy = lift;
+};
+
+export const endPowerUp = (state: SimState, events: SimEvent[]) => {
+  if (!state.activePowerUp) return;
+  events.push({ type: 'powerUpEnded', kind: state.activePowerUp.kind });
+  state.activePowerUp = null;
+};
@@ -0,0 +1,67 @@
+import { PROJECTILE_SPEED, SHOOT_COOLDOWN, SHOT_POINTS, fireProjectile, updateProjectiles } from './projectiles';
+import { createSimulation } from './simulation';
+import { EnemyKind, SimEvent } from './types';
+
+const noInput = { left: false, right: false, down: false, shoot: false, steer: 1 };
+const shoot = { ...noInput, shoot: true };
+
+const stateWithEnemy = (kind: EnemyKind) => {
+  const state = createSimulation(1);
+  state.enemies = [{ id: 50, kind, x: state.player.x, y: state.player.y - 150, originX: state.player.x, direction: 1, speed: 0 }];
+  return state;
+};
+
+describe('projectiles', () => {
+  it('fires while shoot is held, as fast as the cooldown allows', () => {
+    const state = createSimulation(1);
+    const events: SimEvent[] = [];
+    fireProjectile(state, noInput, events);
+    expect(state.projectiles).toEqual([]);
+
+    fireProjectile(state, shoot, events);
+    fireProjectile(state, shoot, events);
+    expect(state.projectiles.length).toBe(1);
+    expect(events).toEqual([{ type: 'shot', projectileId: state.projectiles[0].id }]);
+
+    state.time += SHOOT_COOLDOWN;
+    fireProjectile(state, shoot, events);
+    expect(state.projectiles.length).toBe(2);
+  });
+
+  it('flies straight up and is dropped above the view', () => {
+    const state = createSimulation(1);
+    state.enemies = [];
+    fireProjectile(state, shoot, []);
+    const { x, y } = state.projectiles[0];
+
+    updateProjectiles(state, 0.1, []);
+    expect(state.projectiles[0]).toMatchObject({ x, y: y - PROJECTILE_SPEED * 0.1 });
+
+    updateProjectiles(state, 1, []);
+    expect(state.projectiles).toEqual([]);
+  });
+
+  it('destroys the enemy it hits for bonus points', () => {
+    const state = stateWithEnemy('hover');
+    fireProjectile(state, shoot, []);
+    const projectileId = state.projectiles[0].id;
+
+    const events: SimEvent[] = [];
+    updateProjectiles(state, 0.1, events);
+    expect(events).toEqual([{ type: 'enemyShot', enemyId: 50, projectileId, points: SHOT_POINTS }]);
+    expect(state.enemies).toEqual([]);
+    expect(state.projectiles).toEqual([]);
+    expect(state.bonusScore).toBe(SHOT_POINTS);
+  });
+
+  it('is swallowed by black holes', () => {
+    const state = stateWithEnemy('blackHole');
+    fireProjectile(state, shoot, []);
+
+    const events: SimEvent[] = [];
+    updateProjectiles(state, 0.1, events);
+    expect(events).toEqual([]);
+    expect(state.enemies.length).toBe(1);
+    expect(state.projectiles).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { PLAYER_HEIGHT } from './constants';
+import { ENEMY_KINDS } from './enemies';
+import { overlaps } from './physics';
+import { FrameInput, SimEvent, SimState } from './types';
+
+// Shots fired straight up from the player. Holding the shoot input fires at the
+// rate SHOOT_COOLDOWN allows. A shot destroys the first enemy it hits, except
+// black holes, which swallow it.
+
+export const SHOOT_COOLDOWN = 250; // ms between shots
+export const PROJECTILE_SPEED = 900; // px/s upward, regardless of how the player moves
+export const PROJECTILE_SIZE = 16;
+export const SHOT_POINTS = 30;
+
+export const fireProjectile = (state: SimState, input: FrameInput, events: SimEvent[]) => {
+  if (!input.shoot || state.time < state.shootReadyAt) return;
+
+  const projectile = { id: state.nextId++, x: state.player.x, y: state.player.y - PLAYER_HEIGHT / 2 };
+  state.projectiles.push(projectile);
+  state.shootReadyAt = state.time + SHOOT_COOLDOWN;
+  events.push({ type: 'shot', projectileId: projectile.id });
+};
+
+// Move shots up, resolve hits and drop the ones that left the top of the view
+export const updateProjectiles = (state: SimState, dt: number, events: SimEvent[]) => {
+  state.projectiles = state.projectiles.filter(projectile => {
+    projectile.y -= PROJECTILE_SPEED * dt;
+
+    const enemy = state.enemies.find(target => overlaps(
+      projectile.x, projectile.y, PROJECTILE_SIZE, PROJECTILE_SIZE,
+      target.x, target.y, ENEMY_KINDS[target.kind].width, ENEMY_KINDS[target.kind].height
+    ));
+    if (enemy) {
+      if (ENEMY_KINDS[enemy.kind].destructible) {
+        state.enemies = state.enemies.filter(other => other !== enemy);
+        state.bonusScore += SHOT_POINTS;
+        events.push({ type: 'enemyShot', enemyId: enemy.id, projectileId: projectile.id, points: SHOT_POINTS });
+      }
+      return false;
+    }
+
+    return projectile.y >= state.cameraY - PROJECTILE_SIZE;
+  });
+};
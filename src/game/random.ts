@@ -0,0 +1,48 @@
+// Deterministic pseudo-random number generation for level generation.
+// Every player in a tournament gets the same seed, so everything that shapes
+// the course must draw from a SeededRandom instead of Math.random().
+
+// Hash an arbitrary string into a 32-bit unsigned seed (FNV-1a)
+export const hashSeed = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Format a seed the way it is shown to players
+export const formatSeed = (seed: number) => (seed >>> 0).toString(16).padStart(8, '0');
+
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Create an independent stream so unrelated systems don't shift each other's sequences
+  fork(label: string) {
+    return new SeededRandom(hashSeed(`${this.state}:${label}`));
+  }
+
+  // Float in [0, 1) - mulberry32
+  next() {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Same semantics as Phaser.Math.Between (inclusive integer range)
+  between(min: number, max: number) {
+    return Math.floor(this.next() * (max - min + 1) + min);
+  }
+
+  // Same semantics as Phaser.Math.FloatBetween
+  floatBetween(min: number, max: number) {
+    return this.next() * (max - min) + min;
+  }
+}
@@ -0,0 +1,37 @@
+import { PLATFORM_WIDTH, WORLD_WIDTH } from './constants';
+import { VERTICAL_RANGE } from './platformBehaviors';
+import { JUMP_HEIGHT, MAX_SAFE_GAP, airTime, canReach, horizontalReach } from './reachability';
+import { PlatformType, SimPlatform } from './types';
+
+const makePlatform = (x: number, y: number, type: PlatformType = 'regular'): SimPlatform => ({
+  id: 1, x, y, type, direction: 1, speed: 0, originY: y, solid: true, touchedAt: null, phase: 0
+});
+
+describe('reachability', () => {
+  it('stays short of the top of a normal bounce', () => {
+    expect(JUMP_HEIGHT).toBeCloseTo(259.2);
+    expect(MAX_SAFE_GAP).toBeLessThan(JUMP_HEIGHT);
+    expect(airTime(0)).toBeCloseTo(1.44);
+    expect(airTime(JUMP_HEIGHT)).toBeCloseTo(0.72);
+    expect(horizontalReach(200)).toBeLessThan(horizontalReach(100));
+  });
+
+  it('reaches platforms within a safe jump and the horizontal reach', () => {
+    const from = makePlatform(400, 0);
+    expect(canReach(from, makePlatform(400, -MAX_SAFE_GAP))).toBe(true);
+    expect(canReach(from, makePlatform(400, -MAX_SAFE_GAP - 1))).toBe(false);
+    expect(canReach(from, makePlatform(400 + Math.floor(horizontalReach(150)), -150))).toBe(true);
+    expect(canReach(from, makePlatform(400 + Math.ceil(horizontalReach(150)), -150))).toBe(false);
+  });
+
+  it('allows for how far platforms travel', () => {
+    // Vertical movers count from the worst end of their travel
+    const y = -(MAX_SAFE_GAP - VERTICAL_RANGE) - 1;
+    expect(canReach(makePlatform(400, 0), makePlatform(400, y))).toBe(true);
+    expect(canReach(makePlatform(400, 0), makePlatform(400, y, 'vertical'))).toBe(false);
+    expect(canReach(makePlatform(400, 0, 'vertical'), makePlatform(400, y))).toBe(false);
+
+    expect(canReach(makePlatform(PLATFORM_WIDTH / 2, 0), makePlatform(WORLD_WIDTH - PLATFORM_WIDTH / 2, -200, 'moving')))
+      .toBe(true);
+  });
+});
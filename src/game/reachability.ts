@@ -0,0 +1,42 @@
+import { BOUNCE_VELOCITY, GRAVITY, MOVE_SPEED, PLATFORM_WIDTH } from './constants';
+import { PLATFORM_BEHAVIORS } from './platformBehaviors';
+import { SimPlatform } from './types';
+
+// Whether the player can get from one platform up to another off a normal bounce.
+// The generator keeps a path of reliable platforms up the tower with this, so no
+// seed or difficulty profile can build a section nobody can climb. Every estimate
+// errs toward out of reach.
+
+// Height the player rises off a normal bounce
+export const JUMP_HEIGHT = BOUNCE_VELOCITY ** 2 / (2 * GRAVITY);
+
+// Largest rise the path relies on, short of the apex so it doesn't take a perfect bounce
+export const MAX_SAFE_GAP = Math.floor(JUMP_HEIGHT * 0.9);
+
+// Share of the time in the air the player is assumed to spend steering
+const STEERING_SHARE = 0.8;
+
+// Seconds from a bounce until the player falls back to `rise` px above where they bounced
+export const airTime = (rise: number) => {
+  const speed = -BOUNCE_VELOCITY;
+  return (speed + Math.sqrt(Math.max(0, speed ** 2 - 2 * GRAVITY * rise))) / GRAVITY;
+};
+
+// Furthest a platform `rise` px up can be to the side and still be landed on
+export const horizontalReach = (rise: number) => MOVE_SPEED * airTime(rise) * STEERING_SHARE + PLATFORM_WIDTH / 2;
+
+// How far a platform moves either side of where it was placed
+export const travelOf = (platform: SimPlatform) => PLATFORM_BEHAVIORS[platform.type].travel ?? { x: 0, y: 0 };
+
+// Take off from the lowest point of one platform's travel and land on the highest
+// point of the other's. Platforms that travel sideways come closer on their own.
+export const canReach = (from: SimPlatform, to: SimPlatform) => {
+  const fromTravel = travelOf(from);
+  const toTravel = travelOf(to);
+
+  const rise = from.originY + fromTravel.y - (to.originY - toTravel.y);
+  if (rise > MAX_SAFE_GAP) return false;
+
+  const dx = Math.max(0, Math.abs(from.x - to.x) - fromTravel.x - toTravel.x);
+  return dx <= horizontalReach(rise);
+};
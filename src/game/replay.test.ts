@@ -0,0 +1,120 @@
+import { MAX_RANKED_PAUSES, canPause, pausesLeft } from './pauseRules';
+import { STEP_MS } from './constants';
+import { FixedStepper } from './FixedStepper';
+import {
+  InputLog,
+  InputRecorder,
+  MAX_REPLAY_FRAMES,
+  countReplayFrames,
+  decodeInput,
+  encodeInput,
+  replayRun,
+  verifyRun
+} from './replay';
+import { createSimulation, stepSimulation } from './simulation';
+
+const holdLeft = { left: true, right: false, down: false, shoot: false, steer: 1 };
+const noInput = { left: false, right: false, down: false, shoot: false, steer: 1 };
+
+// Hold left until the player falls off the course, pausing at the given frames
+const recordRun = (seed: number, pauseAt: number[] = []) => {
+  const state = createSimulation(seed);
+  const recorder = new InputRecorder(seed);
+  for (let frame = 0; !state.isGameOver; frame++) {
+    pauseAt.filter(pause => pause === frame).forEach(() => recorder.recordPause());
+    recorder.record(holdLeft);
+    stepSimulation(state, holdLeft, STEP_MS);
+  }
+  return recorder.toLog();
+};
+
+describe('encodeInput', () => {
+  it('keeps how hard the player steers', () => {
+    const partial = { ...holdLeft, shoot: true, steer: 3 / 8 };
+    expect(decodeInput(encodeInput(partial))).toEqual(partial);
+    expect(encodeInput(holdLeft)).toBe(1);
+    expect(decodeInput(encodeInput(noInput))).toEqual(noInput);
+  });
+});
+
+describe('replay length', () => {
+  it('counts the steps a log covers without replaying it', () => {
+    const log = recordRun(5);
+    expect(countReplayFrames(log)).toBe(replayRun(log).frames);
+    expect(countReplayFrames({ ...log, frames: [[0, 1.5]] })).toBeNaN();
+  });
+
+  it('turns away logs longer than the limit before simulating them', () => {
+    const log = { ...recordRun(5), frames: [[0, MAX_REPLAY_FRAMES], [0, 1]] as InputLog['frames'] };
+    expect(replayRun(log)).toMatchObject({ valid: false, reason: 'Run is too long' });
+  });
+});
+
+describe('pauses', () => {
+  it('records when each pause happened', () => {
+    const log = recordRun(5, [10, 10, 60]);
+    expect(log.pauses).toEqual([10, 10, 60]);
+  });
+
+  it('accepts ranked runs within the pause limit', () => {
+    const log = recordRun(5, [30, 60]);
+    const { score } = replayRun(log);
+    expect(verifyRun({ score, log }, 5).valid).toBe(true);
+  });
+
+  it('rejects runs with more pauses than ranked play allows', () => {
+    const log = recordRun(5, Array.from({ length: MAX_RANKED_PAUSES + 1 }, (_, index) => 10 * (index + 1)));
+    const { score } = replayRun(log);
+    expect(verifyRun({ score, log }, 5)).toMatchObject({ valid: false, reason: expect.stringContaining('Paused') });
+  });
+
+  it('rejects malformed pause records', () => {
+    const log = recordRun(5);
+    const tampered: InputLog = { ...log, pauses: [50, 20] };
+    expect(replayRun(tampered)).toMatchObject({ valid: false, reason: 'Malformed pause record' });
+    expect(replayRun({ ...log, pauses: [1e9] }).valid).toBe(false);
+  });
+
+  it('still accepts logs recorded before pauses existed', () => {
+    const { pauses, ...log } = recordRun(5);
+    expect(replayRun(log).valid).toBe(true);
+  });
+});
+
+describe('pause rules', () => {
+  it('limits manual pauses in ranked runs only', () => {
+    expect(pausesLeft(1, true)).toBe(MAX_RANKED_PAUSES - 1);
+    expect(canPause('manual', MAX_RANKED_PAUSES, true)).toBe(false);
+    expect(canPause('manual', 100, false)).toBe(true);
+  });
+
+  it('always pauses when the page goes to the background', () => {
+    expect(canPause('hidden', MAX_RANKED_PAUSES, true)).toBe(true);
+  });
+});
+
+describe('fixed steps', () => {
+  it('plays the same at any refresh rate', () => {
+    // Player after two seconds of steps, fed through the stepper at a refresh rate
+    const playerAfterTwoSeconds = (hz: number) => {
+      const state = createSimulation(9);
+      const stepper = new FixedStepper();
+      let steps = 0;
+      while (steps < 120) {
+        for (let step = stepper.advance(1000 / hz); step > 0 && steps < 120; step--, steps++) {
+          stepSimulation(state, noInput, STEP_MS);
+        }
+      }
+      return state.player;
+    };
+
+    expect(playerAfterTwoSeconds(144)).toEqual(playerAfterTwoSeconds(60));
+    expect(playerAfterTwoSeconds(75)).toEqual(playerAfterTwoSeconds(60));
+  });
+
+  it('rejects logs from before fixed steps', () => {
+    const log = recordRun(9);
+    expect(replayRun({ ...log, version: 2 }).valid).toBe(false);
+    expect(replayRun({ ...log, frames: [[1, 167, 10]] as any }).valid).toBe(false);
+  });
+});
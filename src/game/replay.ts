@@ -0,0 +1,172 @@
+import { STEER_LEVELS, STEP_MS } from './constants';
+import { MAX_RANKED_PAUSES } from './pauseRules';
+import { createSimulation, stepSimulation } from './simulation';
+import { FrameInput } from './types';
+
+// Compact input recording and headless replay of a run. The simulation runs in
+// fixed steps of STEP_MS, so the input for each step is all a replay needs.
+// A run is only trusted when re-simulating its input log reproduces the score.
+
+// Bumped whenever the simulation changes in a way that changes the outcome of recorded input
+export const REPLAY_VERSION = 11;
+
+export const MAX_REPLAY_FRAMES = Math.round(60 * 60 * 1000 / STEP_MS); // An hour of play
+
+const INPUT_LEFT = 1;
+const INPUT_RIGHT = 2;
+const INPUT_DOWN = 4;
+const INPUT_SHOOT = 8;
+// The bits above hold how many steering levels short of full speed the player steers
+const STEER_SHIFT = 4;
+const MAX_INPUT_BITS = (INPUT_LEFT | INPUT_RIGHT | INPUT_DOWN | INPUT_SHOOT) | ((STEER_LEVELS - 1) << STEER_SHIFT);
+
+// [input bits, number of consecutive steps with that input]
+export type ReplayFrame = [number, number];
+
+export interface InputLog {
+  version: number;
+  seed: number;
+  frames: ReplayFrame[];
+  pauses?: number[]; // Number of steps played before each pause
+}
+
+export interface RunResult {
+  score: number;
+  log: InputLog;
+}
+
+export interface ReplayResult {
+  valid: boolean;
+  score: number;
+  frames: number; // Simulation steps
+  durationMs: number;
+  reason?: string;
+}
+
+// Full-speed steering, and no steering at all, encode as 0 so runs without a stick look as before
+export const encodeInput = (input: FrameInput) => {
+  const steering = input.left || input.right;
+  const levelsShort = steering ? STEER_LEVELS - Math.max(1, Math.round(input.steer * STEER_LEVELS)) : 0;
+  return (input.left ? INPUT_LEFT : 0) | (input.right ? INPUT_RIGHT : 0) | (input.down ? INPUT_DOWN : 0) |
+    (input.shoot ? INPUT_SHOOT : 0) | (levelsShort << STEER_SHIFT);
+};
+
+export const decodeInput = (bits: number): FrameInput => ({
+  left: (bits & INPUT_LEFT) !== 0,
+  right: (bits & INPUT_RIGHT) !== 0,
+  down: (bits & INPUT_DOWN) !== 0,
+  shoot: (bits & INPUT_SHOOT) !== 0,
+  steer: (STEER_LEVELS - (bits >> STEER_SHIFT)) / STEER_LEVELS
+});
+
+export class InputRecorder {
+  private frames: ReplayFrame[] = [];
+  private frameCount = 0;
+  private pauses: number[] = [];
+
+  constructor(private seed: number) {}
+
+  // Record the input of one simulation step
+  record(input: FrameInput) {
+    const bits = encodeInput(input);
+    const last = this.frames[this.frames.length - 1];
+    this.frameCount++;
+
+    if (last && last[0] === bits) {
+      last[1]++;
+    } else {
+      this.frames.push([bits, 1]);
+    }
+  }
+
+  recordPause() {
+    this.pauses.push(this.frameCount);
+  }
+
+  get pauseCount() {
+    return this.pauses.length;
+  }
+
+  toLog(): InputLog {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      frames: this.frames.map(frame => [...frame] as ReplayFrame),
+      pauses: [...this.pauses]
+    };
+  }
+}
+
+// Steps a log claims to cover, counted without simulating anything, so oversized
+// logs can be turned away before replaying them. NaN for a malformed log.
+export const countReplayFrames = (log: InputLog) => {
+  if (!log || !Array.isArray(log.frames)) return NaN;
+  let frames = 0;
+  for (const frame of log.frames) {
+    frames += Array.isArray(frame) && Number.isInteger(frame[1]) ? frame[1] : NaN;
+  }
+  return frames;
+};
+
+// Re-simulate a run from its input log without any rendering
+export const replayRun = (log: InputLog): ReplayResult => {
+  const invalid = (reason: string): ReplayResult => ({ valid: false, score: 0, frames: 0, durationMs: 0, reason });
+
+  if (log.version !== REPLAY_VERSION) return invalid(`Unsupported replay version ${log.version}`);
+  if (!Array.isArray(log.frames)) return invalid('Malformed input log');
+  if (countReplayFrames(log) > MAX_REPLAY_FRAMES) return invalid('Run is too long');
+
+  const state = createSimulation(log.seed);
+  let frames = 0;
+
+  for (let i = 0; i < log.frames.length; i++) {
+    const frame = log.frames[i];
+    if (!Array.isArray(frame) || frame.length !== 2) return invalid(`Malformed frame at index ${i}`);
+
+    const [bits, repeat] = frame;
+    if (!Number.isInteger(bits) || bits < 0 || bits > MAX_INPUT_BITS ||
+        !Number.isInteger(repeat) || repeat < 1) {
+      return invalid(`Malformed frame at index ${i}`);
+    }
+
+    frames += repeat;
+    if (frames > MAX_REPLAY_FRAMES) return invalid('Run is too long');
+
+    const input = decodeInput(bits);
+    for (let n = 0; n < repeat; n++) {
+      // Input recorded after the run ended means the log was tampered with
+      if (state.isGameOver) return invalid('Input continues after game over');
+      stepSimulation(state, input, STEP_MS);
+    }
+  }
+
+  if (!state.isGameOver) return invalid('Run did not finish');
+
+  const pauses = log.pauses ?? [];
+  if (!Array.isArray(pauses) ||
+      pauses.some((pause, i) => !Number.isInteger(pause) || pause < (i > 0 ? pauses[i - 1] : 0) || pause > frames)) {
+    return invalid('Malformed pause record');
+  }
+
+  return { valid: true, score: state.score, frames, durationMs: state.time };
+};
+
+// Accept a reported score only when the replay reproduces it for the expected course
+export const verifyRun = (run: RunResult, expectedSeed: number): ReplayResult => {
+  if (run.log.seed !== expectedSeed) {
+    return { valid: false, score: 0, frames: 0, durationMs: 0, reason: 'Run was played on a different course' };
+  }
+
+  // Tournament runs are the only ones ever verified, so they play by the ranked pause rules
+  const pauses = run.log.pauses?.length ?? 0;
+  if (pauses > MAX_RANKED_PAUSES) {
+    return { valid: false, score: 0, frames: 0, durationMs: 0, reason: `Paused ${pauses} times, ranked runs allow ${MAX_RANKED_PAUSES}` };
+  }
+
+  const result = replayRun(run.log);
+  if (result.valid && result.score !== run.score) {
+    return { ...result, valid: false, reason: `Reported score ${run.score} does not match replayed score ${result.score}` };
+  }
+
+  return result;
+};
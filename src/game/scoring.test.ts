@@ -0,0 +1,22 @@
+import { levelScoreAt, milestoneForScore, scoreFromHeight } from './scoring';
+
+describe('scoring', () => {
+  it('awards one point per 10px scrolled', () => {
+    expect(scoreFromHeight(0)).toBe(0);
+    expect(scoreFromHeight(-9)).toBe(0);
+    expect(scoreFromHeight(-10)).toBe(1);
+    expect(scoreFromHeight(-1234)).toBe(123);
+  });
+
+  it('reaches a milestone every 100 points', () => {
+    expect(milestoneForScore(99)).toBe(0);
+    expect(milestoneForScore(100)).toBe(1);
+    expect(milestoneForScore(250)).toBe(2);
+  });
+
+  it('derives the level score from world height above the camera threshold', () => {
+    expect(levelScoreAt(500)).toBe(0);
+    expect(levelScoreAt(250)).toBe(0);
+    expect(levelScoreAt(-750)).toBe(100);
+  });
+});
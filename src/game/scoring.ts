@@ -0,0 +1,10 @@
+import { CAMERA_THRESHOLD, POINTS_PER_MILESTONE } from './constants';
+
+// One point per 10px the camera has climbed
+export const scoreFromHeight = (cameraY: number) => Math.floor(Math.abs(cameraY) / 10);
+
+// The score a player has when standing at the camera threshold level with a platform at world y.
+// Generation difficulty uses this so the seeded course doesn't depend on how fast someone climbs.
+export const levelScoreAt = (worldY: number) => Math.max(0, Math.floor((CAMERA_THRESHOLD - worldY) / 10));
+
+export const milestoneForScore = (score: number) => Math.floor(score / POINTS_PER_MILESTONE);
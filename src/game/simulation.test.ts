@@ -0,0 +1,147 @@
+import { BOUNCE_VELOCITY, CAMERA_THRESHOLD, GAME_OVER_Y, MINI_BOOST_COOLDOWN, MINI_BOOST_VELOCITY, PLAYER_HEIGHT } from './constants';
+import { createSimulation, stepSimulation } from './simulation';
+import { SPRING_VELOCITY } from './platformBehaviors';
+import { PlatformType, SimState } from './types';
+
+const noInput = { left: false, right: false, down: false, shoot: false, steer: 1 };
+const FRAME = 1000 / 60;
+
+// Put the player just above a single platform, falling onto it
+const dropOntoPlatform = (state: SimState, type: PlatformType) => {
+  state.platforms = [{ id: 999, x: 400, y: 600, type, direction: 1, speed: 0, originY: 600, solid: true, touchedAt: null, phase: 0 }];
+  state.player.x = 400;
+  state.player.y = 600 - 14 - PLAYER_HEIGHT / 2 - 1;
+  state.player.vy = 200;
+};
+
+describe('stepSimulation', () => {
+  it('bounces off platforms when landing on them', () => {
+    const state = createSimulation(1);
+    dropOntoPlatform(state, 'regular');
+
+    const events = stepSimulation(state, noInput, FRAME);
+    expect(events).toContainEqual({ type: 'bounce', platformId: 999 });
+    expect(state.player.vy).toBe(BOUNCE_VELOCITY);
+  });
+
+  it('destroys breakable platforms after one bounce', () => {
+    const state = createSimulation(1);
+    dropOntoPlatform(state, 'breakable');
+
+    const events = stepSimulation(state, noInput, FRAME);
+    expect(events).toContainEqual({ type: 'platformBroken', platformId: 999 });
+    expect(state.platforms.find(platform => platform.id === 999)).toBeUndefined();
+  });
+
+  it('bounces higher off springs', () => {
+    const state = createSimulation(1);
+    dropOntoPlatform(state, 'spring');
+
+    stepSimulation(state, noInput, FRAME);
+    expect(state.player.vy).toBe(SPRING_VELOCITY);
+  });
+
+  it('removes disappearing platforms a while after they are touched', () => {
+    const state = createSimulation(1);
+    dropOntoPlatform(state, 'disappearing');
+
+    stepSimulation(state, noInput, FRAME);
+    expect(state.platforms[0].touchedAt).toBe(state.time);
+
+    // Keep the player up in the air while the platform fades
+    for (let i = 0; i < 70; i++) {
+      state.player.vy = -100;
+      stepSimulation(state, noInput, FRAME);
+    }
+    expect(state.platforms.find(platform => platform.id === 999)).toBeUndefined();
+  });
+
+  it('adds stomp points to the score and ends the run on an enemy hit', () => {
+    const state = createSimulation(1);
+    state.bonusScore = 50;
+    stepSimulation(state, noInput, FRAME);
+    expect(state.score).toBe(50);
+
+    state.enemies = [{ id: 998, kind: 'hover', x: state.player.x, y: state.player.y, originX: state.player.x, direction: 1, speed: 0 }];
+    const events = stepSimulation(state, noInput, FRAME);
+    expect(events).toContainEqual({ type: 'enemyHit', enemyId: 998 });
+    expect(events).toContainEqual({ type: 'gameOver', score: 50 });
+    expect(state.isGameOver).toBe(true);
+  });
+
+  it('scores as the camera follows the player above the threshold', () => {
+    const state = createSimulation(1);
+    state.player.y = CAMERA_THRESHOLD;
+    state.player.vy = -1200;
+
+    const events = stepSimulation(state, noInput, 100);
+    expect(state.player.y).toBeCloseTo(CAMERA_THRESHOLD - 110);
+    expect(state.cameraY).toBe(state.player.y - CAMERA_THRESHOLD);
+    expect(state.score).toBe(11);
+    expect(events).toContainEqual({ type: 'score', score: 11 });
+  });
+
+  it('keeps the world still while the camera moves', () => {
+    const state = createSimulation(1);
+    const platform = state.platforms[0];
+    const y = platform.y;
+    state.player.y = CAMERA_THRESHOLD;
+    state.player.vy = -1200;
+
+    stepSimulation(state, noInput, 100);
+    expect(state.cameraY).toBeLessThan(0);
+    expect(platform.y).toBe(y);
+  });
+
+  it('never moves the camera back down', () => {
+    const state = createSimulation(1);
+    state.cameraY = -500;
+    state.platforms = [];
+    state.player.y = -100;
+    state.player.vy = 300;
+
+    stepSimulation(state, noInput, FRAME);
+    expect(state.cameraY).toBe(-500);
+  });
+
+  it('fires a milestone every 100 points', () => {
+    const state = createSimulation(1);
+    state.cameraY = -995;
+    state.player.y = state.cameraY + CAMERA_THRESHOLD;
+    state.player.vy = -1000;
+
+    const events = stepSimulation(state, noInput, FRAME);
+    expect(events).toContainEqual({ type: 'milestone', milestone: 1 });
+  });
+
+  it('only allows a mini-boost while falling and after the cooldown', () => {
+    const state = createSimulation(1);
+    state.platforms = [];
+    state.player.vy = 100;
+
+    stepSimulation(state, { ...noInput, down: true }, FRAME);
+    expect(state.player.vy).toBe(MINI_BOOST_VELOCITY);
+
+    // Still in cooldown once falling again
+    state.player.vy = 100;
+    const events = stepSimulation(state, { ...noInput, down: true }, FRAME);
+    expect(events).not.toContainEqual({ type: 'miniBoost' });
+
+    state.time += MINI_BOOST_COOLDOWN;
+    state.player.vy = 100;
+    expect(stepSimulation(state, { ...noInput, down: true }, FRAME)).toContainEqual({ type: 'miniBoost' });
+  });
+
+  it('ends the run when the player falls off the bottom of the view', () => {
+    const state = createSimulation(1);
+    state.cameraY = -1000;
+    state.platforms = [];
+    state.player.y = state.cameraY + GAME_OVER_Y - 10;
+    state.player.vy = 600;
+
+    const events = stepSimulation(state, noInput, FRAME);
+    expect(state.isGameOver).toBe(true);
+    expect(events).toContainEqual({ type: 'gameOver', score: 100 });
+    expect(stepSimulation(state, noInput, FRAME)).toEqual([]);
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  CAMERA_THRESHOLD,
+  GAME_OVER_Y,
+  LAUNCH_VELOCITY,
+  MINI_BOOST_COOLDOWN,
+  MINI_BOOST_VELOCITY,
+  PLATFORM_HEIGHT,
+  PLAYER_HEIGHT,
+  VIEW_HEIGHT
+} from './constants';
+import { updateCoins } from './coins';
+import { DifficultyProfile, NORMAL_DIFFICULTY } from './difficulty';
+import { resolveEnemyContact, updateEnemies } from './enemies';
+import { findLandingPlatform, integratePlayer } from './physics';
+import { PLATFORM_BEHAVIORS } from './platformBehaviors';
+import { createInitialPlatforms, generatePlatforms, updatePlatforms } from './platforms';
+import { collectPowerUps, createPowerUpSchedule, spawnPowerUp, updateActivePowerUp } from './powerUps';
+import { fireProjectile, updateProjectiles } from './projectiles';
+import { SeededRandom } from './random';
+import { milestoneForScore, scoreFromHeight } from './scoring';
+import { FrameInput, SimEvent, SimState } from './types';
+
+// Headless gameplay simulation. The Phaser scene feeds it player input once per
+// frame and only renders the resulting state, which lets a recorded run be
+// re-simulated without a canvas to verify the reported score. Positions are world
+// coordinates (y grows downward) and a camera follows the player upward.
+
+export const createSimulation = (seed: number, difficulty: DifficultyProfile = NORMAL_DIFFICULTY): SimState => {
+  const rng = new SeededRandom(seed);
+  const state: SimState = {
+    seed,
+    time: 0,
+    frame: 0,
+    player: { x: 400, y: 500, vx: 0, vy: LAUNCH_VELOCITY, facingLeft: false },
+    platforms: [],
+    powerUpItems: [],
+    coins: [],
+    enemies: [],
+    projectiles: [],
+    score: 0,
+    bonusScore: 0,
+    cameraY: 0,
+    lastMilestone: 0,
+    nextPowerUpAt: createPowerUpSchedule(),
+    activePowerUp: null,
+    miniBoostReadyAt: 0,
+    shootReadyAt: 0,
+    isGameOver: false,
+    nextId: 1,
+    difficulty,
+    pathTop: null,
+    platformRng: rng.fork('platforms'),
+    powerUpRng: rng.fork('powerUps'),
+    enemyRng: rng.fork('enemies'),
+    coinRng: rng.fork('coins')
+  };
+
+  createInitialPlatforms(state);
+
+  return state;
+};
+
+// Move the camera up when the player rises above the threshold.
+// Only happens while moving up, which allows players to fall back onto the same platforms.
+const followPlayer = (state: SimState) => {
+  const player = state.player;
+  if (player.y >= state.cameraY + CAMERA_THRESHOLD || player.vy >= 0) return;
+
+  state.cameraY = player.y - CAMERA_THRESHOLD;
+};
+
+const updateScore = (state: SimState, events: SimEvent[]) => {
+  const newScore = scoreFromHeight(state.cameraY) + state.bonusScore;
+  if (newScore === state.score) return;
+
+  state.score = newScore;
+  events.push({ type: 'score', score: newScore });
+
+  const currentMilestone = milestoneForScore(newScore);
+  if (currentMilestone > state.lastMilestone) {
+    state.lastMilestone = currentMilestone;
+    events.push({ type: 'milestone', milestone: currentMilestone });
+  }
+};
+
+// Advance the simulation by one frame of delta ms. Mutates the state and returns what happened.
+export const stepSimulation = (state: SimState, input: FrameInput, delta: number): SimEvent[] => {
+  const events: SimEvent[] = [];
+  if (state.isGameOver) return events;
+
+  const dt = delta / 1000;
+  const player = state.player;
+  state.time += delta;
+  state.frame++;
+
+  const previousBottom = player.y + PLAYER_HEIGHT / 2;
+  integratePlayer(player, input, dt);
+
+  const landed = findLandingPlatform(player, previousBottom, state.platforms);
+  if (landed) {
+    const behavior = PLATFORM_BEHAVIORS[landed.type];
+    player.y = landed.y - PLATFORM_HEIGHT / 2 - PLAYER_HEIGHT / 2;
+    player.vy = behavior.bounceVelocity;
+    events.push({ type: 'bounce', platformId: landed.id });
+    behavior.onLand?.(landed, state.time);
+
+    if (behavior.breaksOnLanding) {
+      state.platforms = state.platforms.filter(platform => platform !== landed);
+      events.push({ type: 'platformBroken', platformId: landed.id });
+    }
+  }
+
+  fireProjectile(state, input, events);
+  updateEnemies(state.enemies, dt);
+  updateProjectiles(state, dt, events);
+  const hitEnemy = resolveEnemyContact(state, previousBottom, events);
+
+  followPlayer(state);
+  updateScore(state, events);
+  updatePlatforms(state, dt);
+
+  // The camera never moves down, so anything past the game over line is out of reach for good
+  state.platforms = state.platforms.filter(platform => platform.y <= state.cameraY + GAME_OVER_Y);
+  state.enemies = state.enemies.filter(enemy => enemy.y <= state.cameraY + GAME_OVER_Y);
+  state.coins = state.coins.filter(coin => coin.y <= state.cameraY + GAME_OVER_Y);
+  generatePlatforms(state);
+
+  // Power-ups: expire, clean up once below the view, spawn, collect and apply
+  state.powerUpItems = state.powerUpItems.filter(item => item.expiresAt > state.time && item.y <= state.cameraY + VIEW_HEIGHT);
+  spawnPowerUp(state, events);
+  collectPowerUps(state, events);
+  updateActivePowerUp(state, events);
+  updateCoins(state, dt, events);
+
+  // Mini-boost: a small upward kick while falling, with a cooldown
+  if (input.down && state.time >= state.miniBoostReadyAt && player.vy > 0) {
+    player.vy = MINI_BOOST_VELOCITY;
+    state.miniBoostReadyAt = state.time + MINI_BOOST_COOLDOWN;
+    events.push({ type: 'miniBoost' });
+  }
+
+  // Game over when running into an enemy or falling too far below the view
+  if (hitEnemy || player.y > state.cameraY + GAME_OVER_Y) {
+    state.isGameOver = true;
+    events.push({ type: 'gameOver', score: state.score });
+  }
+
+  return events;
+};
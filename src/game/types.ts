@@ -0,0 +1,114 @@
+import { DifficultyProfile } from './difficulty';
+import { SeededRandom } from './random';
+
+export type PlatformType = 'regular' | 'moving' | 'vertical' | 'breakable' | 'disappearing' | 'spring' | 'crumbling';
+
+export interface FrameInput {
+  left: boolean;
+  right: boolean;
+  down: boolean;
+  shoot: boolean;
+  steer: number; // Share of the move speed while moving, in steps of 1 / STEER_LEVELS
+}
+
+export interface SimPlatform {
+  id: number;
+  x: number;
+  y: number;
+  type: PlatformType;
+  direction: number;
+  speed: number;
+  originY: number; // Where the platform was placed, vertical movers travel around it
+  solid: boolean; // Whether the player can land on it right now
+  touchedAt: number | null; // Sim time of the first landing
+  phase: number; // ms offset into timed cycles
+}
+
+// Hovers in place, walks back and forth, or swallows the player on any contact
+export type EnemyKind = 'hover' | 'patrol' | 'blackHole';
+
+export interface SimEnemy {
+  id: number;
+  kind: EnemyKind;
+  x: number;
+  y: number;
+  originX: number; // Where the enemy was placed, patrollers walk around it
+  direction: number;
+  speed: number;
+}
+
+export interface SimProjectile {
+  id: number;
+  x: number;
+  y: number;
+}
+
+export type PowerUpKind = 'boost' | 'jetpack' | 'propeller' | 'shield' | 'magnet';
+
+export interface SimPowerUpItem {
+  id: number;
+  kind: PowerUpKind;
+  x: number;
+  y: number;
+  expiresAt: number;
+}
+
+export interface SimCoin {
+  id: number;
+  x: number;
+  y: number;
+}
+
+export interface SimPlayer {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  facingLeft: boolean;
+}
+
+// Things that happened during a step, so the renderer can play effects
+export type SimEvent =
+  | { type: 'bounce'; platformId: number }
+  | { type: 'platformBroken'; platformId: number }
+  | { type: 'score'; score: number }
+  | { type: 'milestone'; milestone: number }
+  | { type: 'powerUpSpawned'; itemId: number; kind: PowerUpKind }
+  | { type: 'powerUpCollected'; itemId: number; kind: PowerUpKind }
+  | { type: 'powerUpEnded'; kind: PowerUpKind }
+  | { type: 'shieldAbsorbed'; enemyId: number }
+  | { type: 'coinCollected'; coinId: number; points: number }
+  | { type: 'miniBoost' }
+  | { type: 'enemyStomped'; enemyId: number; points: number }
+  | { type: 'enemyHit'; enemyId: number }
+  | { type: 'shot'; projectileId: number }
+  | { type: 'enemyShot'; enemyId: number; projectileId: number; points: number }
+  | { type: 'gameOver'; score: number };
+
+export interface SimState {
+  seed: number;
+  time: number; // Simulated ms since the run started
+  frame: number;
+  player: SimPlayer;
+  platforms: SimPlatform[];
+  powerUpItems: SimPowerUpItem[];
+  coins: SimCoin[];
+  enemies: SimEnemy[];
+  projectiles: SimProjectile[];
+  score: number; // Height climbed plus bonus points
+  bonusScore: number; // Points from enemies and coins
+  cameraY: number; // World y of the top of the view. Only ever moves up (negative)
+  lastMilestone: number;
+  nextPowerUpAt: Record<PowerUpKind, number>; // Score each power-up is next offered at
+  activePowerUp: { kind: PowerUpKind; endsAt: number } | null;
+  miniBoostReadyAt: number;
+  shootReadyAt: number;
+  isGameOver: boolean;
+  nextId: number;
+  difficulty: DifficultyProfile;
+  pathTop: SimPlatform | null; // Highest platform on the guaranteed path up
+  platformRng: SeededRandom; // Drives platform layout, types and movement
+  powerUpRng: SeededRandom; // Drives power-up placement, kept separate so power-ups don't shift the course
+  enemyRng: SeededRandom; // Drives enemy placement, for the same reason
+  coinRng: SeededRandom; // Drives coin placement, for the same reason
+}
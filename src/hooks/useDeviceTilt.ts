@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+import { watchDeviceTilt } from '../game/deviceTilt';
+
+// Latest screen-relative tilt in degrees while enabled, or null before the first reading
+export const useDeviceTilt = (enabled: boolean) => {
+  const [tilt, setTilt] = useState<number | null>(null);
+
+  useEffect(() => {
+    setTilt(null);
+    if (!enabled) return;
+    return watchDeviceTilt(setTilt);
+  }, [enabled]);
+
+  return tilt;
+};
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { appConfig } from '../config';
+import { watchPoolBalance } from '../tournament/poolBalance';
+
+// Live USDC balance of the prize pool, or null until it has been read
+export const usePoolBalance = () => {
+  const { connection } = useConnection();
+  const [balance, setBalance] = useState<number | null>(null);
+
+  useEffect(() => {
+    setBalance(null);
+    return watchPoolBalance(connection, appConfig, setBalance, error => {
+      console.error('Error reading pool balance:', error);
+    });
+  }, [connection]);
+
+  return balance;
+};
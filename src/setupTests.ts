@@ -0,0 +1,6 @@
+import { webcrypto } from 'crypto';
+
+// Key generation needs Web Crypto, which Jest's environments don't expose
+if (!globalThis.crypto?.getRandomValues) {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+}
@@ -0,0 +1,83 @@
+import { appConfig } from '../config';
+import { PrizeInfo, SignedPrizeClaim } from './prizeClaim';
+import {
+  JoinRequest,
+  LeaderboardPage,
+  ScoreSubmission,
+  ScoreSubmissionResult,
+  TournamentInfo
+} from './types';
+
+// Typed client for the tournament service (see server/)
+
+export class TournamentApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'TournamentApiError';
+  }
+}
+
+export class TournamentClient {
+  constructor(private baseUrl: string) {}
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init?.headers }
+    });
+    const body = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      throw new TournamentApiError(response.status, body.error || `Request failed with status ${response.status}`);
+    }
+    return body as T;
+  }
+
+  getTournament(id = 'current') {
+    return this.request<TournamentInfo>(`/tournaments/${encodeURIComponent(id)}`);
+  }
+
+  getLeaderboard(id: string, options: { limit?: number; offset?: number; player?: string | null } = {}) {
+    const params = new URLSearchParams();
+    if (options.limit) params.set('limit', String(options.limit));
+    if (options.offset) params.set('offset', String(options.offset));
+    if (options.player) params.set('player', options.player);
+    return this.request<LeaderboardPage>(`/tournaments/${encodeURIComponent(id)}/leaderboard?${params}`);
+  }
+
+  // Listen for tournament changes (joins, accepted scores). Returns an unsubscribe function.
+  subscribe(id: string, onUpdate: (info: TournamentInfo) => void) {
+    const source = new EventSource(`${this.baseUrl}/tournaments/${encodeURIComponent(id)}/events`);
+    source.addEventListener('update', event => {
+      onUpdate(JSON.parse((event as MessageEvent).data));
+    });
+    return () => source.close();
+  }
+
+  join(id: string, request: JoinRequest) {
+    return this.request<TournamentInfo>(`/tournaments/${encodeURIComponent(id)}/join`, {
+      method: 'POST',
+      body: JSON.stringify(request)
+    });
+  }
+
+  submitScore(id: string, submission: ScoreSubmission) {
+    return this.request<ScoreSubmissionResult>(`/tournaments/${encodeURIComponent(id)}/scores`, {
+      method: 'POST',
+      body: JSON.stringify(submission)
+    });
+  }
+
+  getPrizes(player: string) {
+    return this.request<PrizeInfo[]>(`/players/${encodeURIComponent(player)}/prizes`);
+  }
+
+  claimPrize(id: string, signed: SignedPrizeClaim) {
+    return this.request<PrizeInfo>(`/tournaments/${encodeURIComponent(id)}/prize`, {
+      method: 'POST',
+      body: JSON.stringify(signed)
+    });
+  }
+}
+
+export const tournamentClient = new TournamentClient(appConfig.tournamentApiUrl);
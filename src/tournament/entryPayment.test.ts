@@ -0,0 +1,50 @@
+/**
+ * @jest-environment node
+ */
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { Keypair } from '@solana/web3.js';
+import { buildEntryInstructions, toBaseUnits } from './entryPayment';
+import { getEntryReference } from './entryVerification';
+
+const player = Keypair.fromSeed(new Uint8Array(32).fill(1)).publicKey;
+const poolWallet = Keypair.fromSeed(new Uint8Array(32).fill(2)).publicKey;
+const mint = Keypair.fromSeed(new Uint8Array(32).fill(3)).publicKey;
+const reference = getEntryReference('daily-100');
+
+describe('entry payment', () => {
+  it('converts UI amounts to base units exactly', () => {
+    expect(toBaseUnits(1, 6)).toBe(BigInt(1000000));
+    expect(toBaseUnits(0.1, 6)).toBe(BigInt(100000));
+    expect(toBaseUnits(12.345678, 6)).toBe(BigInt(12345678));
+    expect(toBaseUnits(3, 0)).toBe(BigInt(3));
+  });
+
+  it('transfers from the player to the pool token account with checked decimals and a tournament reference', () => {
+    const instructions = buildEntryInstructions({
+      player, mint, poolWallet, amount: BigInt(5000000), decimals: 6, createPoolAccount: false, reference
+    });
+
+    expect(instructions).toHaveLength(1);
+    const [transfer] = instructions;
+    expect(transfer.programId.equals(TOKEN_PROGRAM_ID)).toBe(true);
+    expect(transfer.keys.map(key => key.pubkey.toBase58())).toEqual([
+      getAssociatedTokenAddressSync(mint, player).toBase58(),
+      mint.toBase58(),
+      getAssociatedTokenAddressSync(mint, poolWallet).toBase58(),
+      player.toBase58(),
+      reference.toBase58()
+    ]);
+    expect(transfer.keys[4]).toMatchObject({ isSigner: false, isWritable: false });
+    expect(transfer.data[transfer.data.length - 1]).toBe(6);
+  });
+
+  it('creates the pool token account first when it does not exist', () => {
+    const instructions = buildEntryInstructions({
+      player, mint, poolWallet, amount: BigInt(1), decimals: 6, createPoolAccount: true, reference
+    });
+
+    expect(instructions).toHaveLength(2);
+    expect(instructions[0].programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)).toBe(true);
+    expect(instructions[0].keys[1].pubkey.equals(getAssociatedTokenAddressSync(mint, poolWallet))).toBe(true);
+  });
+});
@@ -0,0 +1,174 @@
+import {
+  ACCOUNT_SIZE,
+  TokenAccountNotFoundError,
+  TokenInvalidAccountOwnerError,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAccount,
+  getAssociatedTokenAddressSync,
+  getMint
+} from '@solana/spl-token';
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionExpiredBlockheightExceededError,
+  TransactionInstruction
+} from '@solana/web3.js';
+import { AppConfig } from '../config';
+import { getEntryReference } from './entryVerification';
+
+// Tournament entry: a USDC transfer from the player to the pool wallet
+
+// Rough upper bound for the network fee of the entry transaction
+const FEE_ALLOWANCE_LAMPORTS = 10000;
+
+export type EntryPaymentStatus = 'preparing' | 'approving' | 'confirming';
+
+export type EntryPaymentErrorCode =
+  | 'belowMinimum'
+  | 'mintNotFound'
+  | 'noUsdcAccount'
+  | 'insufficientUsdc'
+  | 'insufficientSol'
+  | 'rejected'
+  | 'expired'
+  | 'failed';
+
+export class EntryPaymentError extends Error {
+  constructor(public code: EntryPaymentErrorCode, message: string) {
+    super(message);
+    this.name = 'EntryPaymentError';
+  }
+}
+
+// Matches the wallet adapter's sendTransaction
+export type TransactionSender = (transaction: Transaction, connection: Connection) => Promise<string>;
+
+export type EntryPaymentConfig = Pick<AppConfig, 'cluster' | 'usdcMint' | 'poolWallet' | 'minimumEntry'>;
+
+// Convert a UI amount to base units without floating point drift, e.g. 1.5 USDC -> 1500000n
+export const toBaseUnits = (amount: number, decimals: number) => {
+  const [whole, fraction = ''] = amount.toFixed(decimals).split('.');
+  return BigInt(whole + fraction.padEnd(decimals, '0'));
+};
+
+export const buildEntryInstructions = (params: {
+  player: PublicKey;
+  mint: PublicKey;
+  poolWallet: PublicKey;
+  amount: bigint;
+  decimals: number;
+  createPoolAccount: boolean;
+  reference: PublicKey; // Tags the transfer with its tournament, see entryVerification
+}): TransactionInstruction[] => {
+  const source = getAssociatedTokenAddressSync(params.mint, params.player);
+  const destination = getAssociatedTokenAddressSync(params.mint, params.poolWallet, true);
+  const instructions: TransactionInstruction[] = [];
+
+  // Idempotent, so a pool account created in the meantime doesn't fail the entry
+  if (params.createPoolAccount) {
+    instructions.push(createAssociatedTokenAccountIdempotentInstruction(
+      params.player, destination, params.poolWallet, params.mint
+    ));
+  }
+
+  const transfer = createTransferCheckedInstruction(
+    source, params.mint, destination, params.player, params.amount, params.decimals
+  );
+  transfer.keys.push({ pubkey: params.reference, isSigner: false, isWritable: false });
+  instructions.push(transfer);
+
+  return instructions;
+};
+
+const isUserRejection = (error: unknown) =>
+  error instanceof Error && /reject|denied|cancel/i.test(error.message);
+
+// Send the entry transfer and wait for it to confirm. Returns the transaction signature.
+export const sendEntryPayment = async (params: {
+  connection: Connection;
+  sendTransaction: TransactionSender;
+  player: PublicKey;
+  tournamentId: string;
+  amount: number;
+  config: EntryPaymentConfig;
+  onStatus?: (status: EntryPaymentStatus) => void;
+}): Promise<string> => {
+  const { connection, sendTransaction, player, amount, config } = params;
+  const onStatus = params.onStatus ?? (() => {});
+
+  if (!(amount >= config.minimumEntry)) {
+    throw new EntryPaymentError('belowMinimum', `The minimum entry is ${config.minimumEntry} USDC`);
+  }
+
+  onStatus('preparing');
+
+  const mint = await getMint(connection, config.usdcMint).catch(error => {
+    if (error instanceof TokenAccountNotFoundError || error instanceof TokenInvalidAccountOwnerError) {
+      throw new EntryPaymentError('mintNotFound', `The USDC mint does not exist on ${config.cluster}`);
+    }
+    throw error;
+  });
+  const baseUnits = toBaseUnits(amount, mint.decimals);
+
+  // Check the player's USDC before asking them to sign anything
+  const playerAccount = await getAccount(connection, getAssociatedTokenAddressSync(mint.address, player)).catch(error => {
+    if (error instanceof TokenAccountNotFoundError) {
+      throw new EntryPaymentError('noUsdcAccount', `Your wallet has no USDC on ${config.cluster}`);
+    }
+    throw error;
+  });
+  if (playerAccount.amount < baseUnits) {
+    const balance = Number(playerAccount.amount) / 10 ** mint.decimals;
+    throw new EntryPaymentError('insufficientUsdc', `Not enough USDC: you have ${balance}, the entry is ${amount}`);
+  }
+
+  // The player pays the fee, and the rent for the pool's token account if it doesn't exist yet
+  const poolAccount = getAssociatedTokenAddressSync(mint.address, config.poolWallet, true);
+  const createPoolAccount = !(await connection.getAccountInfo(poolAccount));
+  const requiredLamports = FEE_ALLOWANCE_LAMPORTS +
+    (createPoolAccount ? await connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZE) : 0);
+  if (await connection.getBalance(player) < requiredLamports) {
+    throw new EntryPaymentError('insufficientSol', 'Not enough SOL to pay the transaction fee');
+  }
+
+  const transaction = new Transaction().add(...buildEntryInstructions({
+    player,
+    mint: mint.address,
+    poolWallet: config.poolWallet,
+    amount: baseUnits,
+    decimals: mint.decimals,
+    createPoolAccount,
+    reference: getEntryReference(params.tournamentId)
+  }));
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = player;
+
+  onStatus('approving');
+
+  let signature: string;
+  try {
+    signature = await sendTransaction(transaction, connection);
+  } catch (error) {
+    if (isUserRejection(error)) throw new EntryPaymentError('rejected', 'The transaction was rejected in your wallet');
+    throw new EntryPaymentError('failed', `The transaction could not be sent: ${error instanceof Error ? error.message : error}`);
+  }
+
+  onStatus('confirming');
+
+  try {
+    const confirmation = await connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+    if (confirmation.value.err) {
+      throw new EntryPaymentError('failed', `The transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+    }
+  } catch (error) {
+    if (error instanceof TransactionExpiredBlockheightExceededError) {
+      throw new EntryPaymentError('expired', 'The transaction expired before it was confirmed. Please try again.');
+    }
+    throw error;
+  }
+
+  return signature;
+};
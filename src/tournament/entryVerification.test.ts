@@ -0,0 +1,132 @@
+/**
+ * @jest-environment node
+ */
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { Connection, Keypair, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import {
+  EntryVerifier,
+  findEntryTransfer,
+  getEntryReference,
+  loadEntrySignature,
+  saveEntrySignature
+} from './entryVerification';
+
+const player = Keypair.fromSeed(new Uint8Array(32).fill(1)).publicKey;
+const poolWallet = Keypair.fromSeed(new Uint8Array(32).fill(2)).publicKey;
+const usdcMint = Keypair.fromSeed(new Uint8Array(32).fill(3)).publicKey;
+const config = { usdcMint, poolWallet, minimumEntry: 1 };
+const tournament = { id: 'daily-100', startsAt: 1000000, endsAt: 2000000 };
+
+const entryTransaction = (params: {
+  amount?: string;
+  authority?: PublicKey;
+  reference?: PublicKey;
+  blockTime?: number | null;
+  err?: unknown;
+} = {}) => ({
+  slot: 1,
+  blockTime: params.blockTime === undefined ? 1500 : params.blockTime,
+  meta: { err: params.err ?? null, fee: 5000, preBalances: [], postBalances: [] },
+  transaction: {
+    signatures: ['sig'],
+    message: {
+      accountKeys: [player, params.reference ?? getEntryReference(tournament.id)]
+        .map(pubkey => ({ pubkey, signer: false, writable: false })),
+      recentBlockhash: '',
+      instructions: [{
+        program: 'spl-token',
+        programId: TOKEN_PROGRAM_ID,
+        parsed: {
+          type: 'transferChecked',
+          info: {
+            source: getAssociatedTokenAddressSync(usdcMint, player).toBase58(),
+            mint: usdcMint.toBase58(),
+            destination: getAssociatedTokenAddressSync(usdcMint, poolWallet, true).toBase58(),
+            authority: (params.authority ?? player).toBase58(),
+            tokenAmount: { amount: params.amount ?? '2500000', decimals: 6 }
+          }
+        }
+      }]
+    }
+  }
+}) as unknown as ParsedTransactionWithMeta;
+
+const fakeConnection = (transactions: Record<string, ParsedTransactionWithMeta>, slotTime: number | null = null) => ({
+  getBlockTime: jest.fn(async () => slotTime),
+  getSignaturesForAddress: jest.fn(async () => Object.keys(transactions).map(signature => ({ signature, err: null }))),
+  getParsedTransactions: jest.fn(async (signatures: string[]) => signatures.map(signature => transactions[signature] ?? null))
+});
+
+describe('entry verification', () => {
+  it('derives a stable reference key per tournament', () => {
+    expect(getEntryReference('daily-100').equals(getEntryReference('daily-100'))).toBe(true);
+    expect(getEntryReference('daily-100').equals(getEntryReference('daily-101'))).toBe(false);
+  });
+
+  it('recognises a qualifying USDC transfer into the pool', () => {
+    expect(findEntryTransfer(entryTransaction(), player, config)).toBe(2.5);
+    expect(findEntryTransfer(entryTransaction({ amount: '500000' }), player, config)).toBeNull();
+    expect(findEntryTransfer(entryTransaction({ err: { InstructionError: [0, 'Custom'] } }), player, config)).toBeNull();
+    expect(findEntryTransfer(entryTransaction({ authority: poolWallet }), player, config)).toBeNull();
+  });
+
+  it('finds an entry by scanning the tournament reference and caches it', async () => {
+    const connection = fakeConnection({
+      other: entryTransaction({ authority: poolWallet }),
+      mine: entryTransaction()
+    });
+    const verifier = new EntryVerifier(connection as unknown as Connection, config);
+
+    const proof = await verifier.verifyEntry(tournament, player);
+    expect(proof).toMatchObject({ tournamentId: tournament.id, player: player.toBase58(), signature: 'mine', amount: 2.5 });
+
+    await verifier.verifyEntry(tournament, player);
+    expect(connection.getSignaturesForAddress).toHaveBeenCalledTimes(1);
+  });
+
+  it('checks a known entry signature before scanning', async () => {
+    const connection = fakeConnection({ mine: entryTransaction(), other: entryTransaction({ authority: poolWallet }) });
+    const verifier = new EntryVerifier(connection as unknown as Connection, config);
+    expect(await verifier.findEntry(tournament, player, 'mine')).toMatchObject({ signature: 'mine' });
+    expect(connection.getSignaturesForAddress).not.toHaveBeenCalled();
+
+    const fallback = new EntryVerifier(connection as unknown as Connection, config);
+    expect(await fallback.findEntry(tournament, player, 'other')).toMatchObject({ signature: 'mine' });
+    expect(connection.getSignaturesForAddress).toHaveBeenCalledTimes(1);
+  });
+
+  it('remembers entry signatures per tournament and player', () => {
+    const values = new Map<string, string>();
+    const storage = { getItem: (key: string) => values.get(key) ?? null, setItem: (key: string, value: string) => values.set(key, value) };
+
+    saveEntrySignature(storage, 'daily-100', player, 'mine');
+    saveEntrySignature(storage, 'daily-101', player, 'next');
+    expect(loadEntrySignature(storage, 'daily-100', player)).toBe('mine');
+    expect(loadEntrySignature(storage, 'daily-100', poolWallet)).toBeNull();
+    expect(loadEntrySignature({ getItem: () => 'not json' }, 'daily-100', player)).toBeNull();
+  });
+
+  it('ignores transfers tagged for another tournament or paid outside the window', async () => {
+    const connection = fakeConnection({
+      elsewhere: entryTransaction({ reference: getEntryReference('daily-99') }),
+      late: entryTransaction({ blockTime: 2500 })
+    });
+    const verifier = new EntryVerifier(connection as unknown as Connection, config);
+
+    expect(await verifier.verifyEntry(tournament, player, 'elsewhere')).toBeNull();
+    expect(await verifier.verifyEntry(tournament, player, 'late')).toBeNull();
+  });
+
+  it('checks the slot time when a transaction has none, and rejects it without one', async () => {
+    const transactions = { untimed: entryTransaction({ blockTime: null }) };
+
+    const timed = new EntryVerifier(fakeConnection(transactions, 1500) as unknown as Connection, config);
+    expect(await timed.verifyEntry(tournament, player, 'untimed')).toMatchObject({ signature: 'untimed', blockTime: 1500000 });
+
+    const late = new EntryVerifier(fakeConnection(transactions, 2500) as unknown as Connection, config);
+    expect(await late.verifyEntry(tournament, player, 'untimed')).toBeNull();
+
+    const unknown = new EntryVerifier(fakeConnection(transactions) as unknown as Connection, config);
+    expect(await unknown.verifyEntry(tournament, player, 'untimed')).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+import { getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { sha256 } from '@noble/hashes/sha256';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { Connection, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import { AppConfig } from '../config';
+
+// Proof that a wallet paid its tournament entry on-chain. Every entry transfer
+// carries the tournament's reference key, so a tournament's entries can be found
+// by scanning the signatures for that key. Scanning costs many RPC calls, so the
+// browser remembers each entry's signature and checks that first.
+
+const SIGNATURE_PAGE_SIZE = 1000;
+const TRANSACTION_BATCH_SIZE = 50;
+// A wallet without an entry is re-checked at most this often
+const MISSING_ENTRY_CACHE_MS = 15 * 1000;
+
+export interface EntryProof {
+  tournamentId: string;
+  player: string;
+  signature: string;
+  amount: number; // USDC
+  blockTime: number; // UTC ms
+}
+
+export type EntryVerificationConfig = Pick<AppConfig, 'usdcMint' | 'poolWallet' | 'minimumEntry'>;
+
+export interface EntryWindow {
+  id: string;
+  startsAt: number;
+  endsAt: number;
+}
+
+export const ENTRY_STORAGE_KEY = 'hedgy-jump:entries';
+
+const entryStorageId = (tournamentId: string, player: PublicKey) => `${tournamentId}:${player.toBase58()}`;
+
+// The signature the player last entered a tournament with, if this browser paid it
+export const loadEntrySignature = (storage: Pick<Storage, 'getItem'>, tournamentId: string, player: PublicKey) => {
+  try {
+    const saved = JSON.parse(storage.getItem(ENTRY_STORAGE_KEY) || '{}')[entryStorageId(tournamentId, player)];
+    return typeof saved === 'string' ? saved : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const saveEntrySignature = (
+  storage: Pick<Storage, 'getItem' | 'setItem'>,
+  tournamentId: string,
+  player: PublicKey,
+  signature: string
+) => {
+  let saved: Record<string, string> = {};
+  try {
+    saved = JSON.parse(storage.getItem(ENTRY_STORAGE_KEY) || '{}');
+  } catch (error) {
+    // Start over from a corrupt entry list
+  }
+  storage.setItem(ENTRY_STORAGE_KEY, JSON.stringify({ ...saved, [entryStorageId(tournamentId, player)]: signature }));
+};
+
+// Read-only key added to entry transfers to tag them with their tournament
+export const getEntryReference = (tournamentId: string) =>
+  new PublicKey(sha256(utf8ToBytes(`hedgy-jump-entry:${tournamentId}`)));
+
+// The USDC amount the player paid into the pool in this transaction, or null if it isn't an entry
+export const findEntryTransfer = (
+  transaction: ParsedTransactionWithMeta,
+  player: PublicKey,
+  config: EntryVerificationConfig
+) => {
+  if (!transaction.meta || transaction.meta.err) return null;
+
+  const poolAccount = getAssociatedTokenAddressSync(config.usdcMint, config.poolWallet, true).toBase58();
+  let amount = 0;
+
+  for (const instruction of transaction.transaction.message.instructions) {
+    if (!('parsed' in instruction) || instruction.program !== 'spl-token') continue;
+
+    const { type, info } = instruction.parsed;
+    if (type === 'transferChecked' &&
+        info.mint === config.usdcMint.toBase58() &&
+        info.destination === poolAccount &&
+        info.authority === player.toBase58()) {
+      amount += Number(info.tokenAmount.amount) / 10 ** info.tokenAmount.decimals;
+    }
+  }
+
+  return amount >= config.minimumEntry ? amount : null;
+};
+
+export class EntryVerifier {
+  private proofs = new Map<string, EntryProof>();
+  private missing = new Map<string, number>();
+
+  constructor(private connection: Connection, private config: EntryVerificationConfig) {}
+
+  // Find the player's entry for a tournament. Pass the signature of a just-sent
+  // entry to check that transaction directly instead of scanning.
+  async verifyEntry(tournament: EntryWindow, player: PublicKey, signature?: string): Promise<EntryProof | null> {
+    const key = `${tournament.id}:${player.toBase58()}`;
+    const cached = this.proofs.get(key);
+    if (cached) return cached;
+    if (!signature && Date.now() - (this.missing.get(key) ?? 0) < MISSING_ENTRY_CACHE_MS) return null;
+
+    const proof = signature
+      ? await this.checkSignatures(tournament, player, [signature])
+      : await this.scan(tournament, player);
+
+    if (proof) {
+      this.proofs.set(key, proof);
+      this.missing.delete(key);
+    } else if (!signature) {
+      this.missing.set(key, Date.now());
+    }
+    return proof;
+  }
+
+  // Find the player's entry from the signature they are known to have paid with,
+  // and only scan the tournament's reference when that isn't an entry
+  async findEntry(tournament: EntryWindow, player: PublicKey, knownSignature: string | null) {
+    const known = knownSignature ? await this.verifyEntry(tournament, player, knownSignature) : null;
+    return known ?? this.verifyEntry(tournament, player);
+  }
+
+  private async scan(tournament: EntryWindow, player: PublicKey) {
+    const reference = getEntryReference(tournament.id);
+    let before: string | undefined;
+
+    for (;;) {
+      const page = await this.connection.getSignaturesForAddress(
+        reference, { before, limit: SIGNATURE_PAGE_SIZE }, 'confirmed'
+      );
+      const proof = await this.checkSignatures(
+        tournament, player, page.filter(info => !info.err).map(info => info.signature)
+      );
+      if (proof) return proof;
+      if (page.length < SIGNATURE_PAGE_SIZE) return null;
+      before = page[page.length - 1].signature;
+    }
+  }
+
+  private async checkSignatures(tournament: EntryWindow, player: PublicKey, signatures: string[]) {
+    const reference = getEntryReference(tournament.id);
+
+    for (let i = 0; i < signatures.length; i += TRANSACTION_BATCH_SIZE) {
+      const batch = signatures.slice(i, i + TRANSACTION_BATCH_SIZE);
+      const transactions = await this.connection.getParsedTransactions(
+        batch, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 }
+      );
+
+      for (let n = 0; n < transactions.length; n++) {
+        const transaction = transactions[n];
+        if (!transaction) continue;
+
+        // Must be tagged for this tournament and paid while it was open. Without a
+        // time from the transaction or its slot, there is no telling when that was
+        const tagged = transaction.transaction.message.accountKeys.some(key => key.pubkey.equals(reference));
+        if (!tagged) continue;
+        const seconds = transaction.blockTime ?? await this.connection.getBlockTime(transaction.slot);
+        if (seconds === null) continue;
+        const blockTime = seconds * 1000;
+        if (blockTime < tournament.startsAt || blockTime >= tournament.endsAt) continue;
+
+        const amount = findEntryTransfer(transaction, player, this.config);
+        if (amount !== null) {
+          return { tournamentId: tournament.id, player: player.toBase58(), signature: batch[n], amount, blockTime };
+        }
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,51 @@
+import { paginateLeaderboard, rankScores } from './leaderboard';
+
+const scores = [
+  { player: 'alice', score: 300, submittedAt: 5 },
+  { player: 'bob', score: 500, submittedAt: 3 },
+  { player: 'alice', score: 550, submittedAt: 9 },
+  { player: 'carol', score: 500, submittedAt: 2 },
+  { player: 'dave', score: 100, submittedAt: 1 }
+];
+
+describe('rankScores', () => {
+  it('keeps each player best score, highest first', () => {
+    expect(rankScores(scores).map(entry => [entry.rank, entry.player, entry.score])).toEqual([
+      [1, 'alice', 550],
+      [2, 'carol', 500],
+      [2, 'bob', 500],
+      [4, 'dave', 100]
+    ]);
+  });
+
+  it('lists tied players by earliest submission, including a player repeating their own score', () => {
+    const ranked = rankScores([
+      { player: 'bob', score: 500, submittedAt: 8 },
+      { player: 'carol', score: 500, submittedAt: 6 },
+      { player: 'bob', score: 500, submittedAt: 4 }
+    ]);
+    expect(ranked.map(entry => [entry.player, entry.submittedAt])).toEqual([['bob', 4], ['carol', 6]]);
+  });
+});
+
+describe('paginateLeaderboard', () => {
+  const ranked = rankScores(scores);
+
+  it('returns the requested page', () => {
+    const page = paginateLeaderboard(ranked, { limit: 2, offset: 2 });
+    expect(page.total).toBe(4);
+    expect(page.entries.map(entry => entry.player)).toEqual(['bob', 'dave']);
+  });
+
+  it('includes the player entry even outside the page', () => {
+    const page = paginateLeaderboard(ranked, { limit: 1, player: 'dave' });
+    expect(page.entries.map(entry => entry.player)).toEqual(['alice']);
+    expect(page.player).toEqual(expect.objectContaining({ player: 'dave', rank: 4 }));
+    expect(paginateLeaderboard(ranked, { player: 'erin' }).player).toBeNull();
+  });
+
+  it('clamps the page size', () => {
+    expect(paginateLeaderboard(ranked, { limit: 1000 }).limit).toBe(50);
+    expect(paginateLeaderboard(ranked, { limit: 0 }).limit).toBe(10);
+  });
+});
@@ -0,0 +1,49 @@
+import { LeaderboardEntry, LeaderboardPage } from './types';
+
+export interface RankableScore {
+  player: string;
+  score: number;
+  submittedAt: number;
+}
+
+// Best score per player, highest first. Players tied on score share a rank, and
+// settlement splits the prizes of the places they span, so the board and the
+// payouts always agree. Within a tie, whoever got there first is listed first.
+export const rankScores = (scores: RankableScore[]): LeaderboardEntry[] => {
+  const best = new Map<string, RankableScore>();
+  scores.forEach(entry => {
+    const current = best.get(entry.player);
+    if (!current ||
+        entry.score > current.score ||
+        (entry.score === current.score && entry.submittedAt < current.submittedAt)) {
+      best.set(entry.player, entry);
+    }
+  });
+
+  const sorted = Array.from(best.values()).sort((a, b) => b.score - a.score || a.submittedAt - b.submittedAt);
+  let rank = 0;
+  return sorted.map((entry, index) => {
+    if (index === 0 || entry.score !== sorted[index - 1].score) rank = index + 1;
+    return { rank, player: entry.player, score: entry.score, submittedAt: entry.submittedAt };
+  });
+};
+
+export const LEADERBOARD_PAGE_SIZES = [10, 50];
+export const MAX_LEADERBOARD_PAGE_SIZE = 50;
+
+// One page of the ranking, plus the requesting player's own entry wherever it falls
+export const paginateLeaderboard = (
+  ranked: LeaderboardEntry[],
+  options: { limit?: number; offset?: number; player?: string | null } = {}
+): LeaderboardPage => {
+  const limit = Math.min(MAX_LEADERBOARD_PAGE_SIZE, Math.max(1, Math.floor(options.limit || 10)));
+  const offset = Math.max(0, Math.floor(options.offset || 0));
+
+  return {
+    total: ranked.length,
+    limit,
+    offset,
+    entries: ranked.slice(offset, offset + limit),
+    player: options.player ? ranked.find(entry => entry.player === options.player) || null : null
+  };
+};
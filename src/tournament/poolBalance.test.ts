@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+import {
+  ACCOUNT_SIZE,
+  AccountLayout,
+  AccountState,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync
+} from '@solana/spl-token';
+import { AccountInfo, Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { POOL_RETRY_MS, parsePoolBalance, watchPoolBalance } from './poolBalance';
+
+const usdcMint = Keypair.fromSeed(new Uint8Array(32).fill(3)).publicKey;
+const poolWallet = Keypair.fromSeed(new Uint8Array(32).fill(2)).publicKey;
+const poolAccount = getAssociatedTokenAddressSync(usdcMint, poolWallet, true);
+
+const tokenAccount = (amount: number): AccountInfo<Buffer> => {
+  const data = Buffer.alloc(ACCOUNT_SIZE);
+  AccountLayout.encode({
+    mint: usdcMint,
+    owner: poolWallet,
+    amount: BigInt(amount),
+    delegateOption: 0,
+    delegate: PublicKey.default,
+    state: AccountState.Initialized,
+    isNativeOption: 0,
+    isNative: BigInt(0),
+    delegatedAmount: BigInt(0),
+    closeAuthorityOption: 0,
+    closeAuthority: PublicKey.default
+  }, data);
+  return { data, owner: TOKEN_PROGRAM_ID, lamports: 1, executable: false };
+};
+
+const mintAccount = (): AccountInfo<Buffer> => {
+  const data = Buffer.alloc(MINT_SIZE);
+  MintLayout.encode({
+    mintAuthorityOption: 0,
+    mintAuthority: PublicKey.default,
+    supply: BigInt(0),
+    decimals: 6,
+    isInitialized: true,
+    freezeAuthorityOption: 0,
+    freezeAuthority: PublicKey.default
+  }, data);
+  return { data, owner: TOKEN_PROGRAM_ID, lamports: 1, executable: false };
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('pool balance', () => {
+  it('reads the USDC amount, treating a missing account as empty', () => {
+    expect(parsePoolBalance(poolAccount, tokenAccount(12500000), 6)).toBe(12.5);
+    expect(parsePoolBalance(poolAccount, null, 6)).toBe(0);
+  });
+
+  it('reads the balance once and then follows account changes', async () => {
+    let notify: ((info: AccountInfo<Buffer>) => void) | null = null;
+    const connection = {
+      getAccountInfo: async (address: PublicKey) => address.equals(usdcMint) ? mintAccount() : tokenAccount(5000000),
+      onAccountChange: (address: PublicKey, callback: (info: AccountInfo<Buffer>) => void) => {
+        expect(address.equals(poolAccount)).toBe(true);
+        notify = callback;
+        return 1;
+      },
+      removeAccountChangeListener: jest.fn(async () => {})
+    };
+    const balances: number[] = [];
+    const onError = jest.fn();
+
+    const stop = watchPoolBalance(connection as unknown as Connection, { usdcMint, poolWallet }, balance => balances.push(balance), onError);
+    await flush();
+    notify!(tokenAccount(7000000));
+    stop();
+
+    expect(onError).not.toHaveBeenCalled();
+    expect(balances).toEqual([5, 7]);
+    expect(connection.removeAccountChangeListener).toHaveBeenCalledWith(1);
+  });
+
+  it('keeps retrying until the mint can be read', async () => {
+    jest.useFakeTimers();
+    let mintReads = 0;
+    const connection = {
+      getAccountInfo: async (address: PublicKey) => {
+        if (!address.equals(usdcMint)) return tokenAccount(3000000);
+        if (++mintReads < 3) throw new Error('rate limited');
+        return mintAccount();
+      },
+      onAccountChange: () => 1,
+      removeAccountChangeListener: async () => {}
+    };
+    const balances: number[] = [];
+    const onError = jest.fn();
+    const settle = async () => {
+      for (let n = 0; n < 20; n++) await Promise.resolve();
+    };
+
+    try {
+      const stop = watchPoolBalance(connection as unknown as Connection, { usdcMint, poolWallet }, balance => balances.push(balance), onError);
+      await settle();
+      expect(onError).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(POOL_RETRY_MS);
+      await settle();
+      expect(onError).toHaveBeenCalledTimes(2);
+
+      jest.advanceTimersByTime(POOL_RETRY_MS * 2);
+      await settle();
+      stop();
+      expect(balances).toEqual([3]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
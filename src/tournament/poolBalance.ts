@@ -0,0 +1,73 @@
+import { getAssociatedTokenAddressSync, getMint, unpackAccount } from '@solana/spl-token';
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js';
+import { AppConfig } from '../config';
+
+// On-chain prize pool: the USDC held by the pool wallet's token account
+
+// The subscription can't be relied on alone: web3.js resubscribes after a dropped
+// websocket but never notifies changes made while it was down, and a websocket
+// that never connects fails silently. This poll is the fallback for both.
+export const POOL_RECONCILE_INTERVAL_MS = 30 * 1000;
+// Retry delays while the mint can't be read yet, doubling up to the maximum
+export const POOL_RETRY_MS = 2 * 1000;
+export const POOL_MAX_RETRY_MS = 60 * 1000;
+
+export type PoolBalanceConfig = Pick<AppConfig, 'usdcMint' | 'poolWallet'>;
+
+// A pool token account that doesn't exist yet simply holds nothing
+export const parsePoolBalance = (address: PublicKey, info: AccountInfo<Buffer> | null, decimals: number) =>
+  info ? Number(unpackAccount(address, info).amount) / 10 ** decimals : 0;
+
+// Keep the pool balance current. Returns a function that stops watching.
+export const watchPoolBalance = (
+  connection: Connection,
+  config: PoolBalanceConfig,
+  onBalance: (balance: number) => void,
+  onError: (error: unknown) => void
+) => {
+  const address = getAssociatedTokenAddressSync(config.usdcMint, config.poolWallet, true);
+  let stopped = false;
+  let subscriptionId: number | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Nothing can be read without the mint's decimals, so keep retrying until they are known
+  const start = async (attempt: number) => {
+    let decimals: number;
+    try {
+      ({ decimals } = await getMint(connection, config.usdcMint));
+    } catch (error) {
+      if (stopped) return;
+      onError(error);
+      retryTimer = setTimeout(() => start(attempt + 1), Math.min(POOL_MAX_RETRY_MS, POOL_RETRY_MS * 2 ** attempt));
+      return;
+    }
+    if (stopped) return;
+
+    const refresh = async () => {
+      try {
+        const info = await connection.getAccountInfo(address, 'confirmed');
+        if (!stopped) onBalance(parsePoolBalance(address, info, decimals));
+      } catch (error) {
+        if (!stopped) onError(error);
+      }
+    };
+
+    subscriptionId = connection.onAccountChange(address, info => {
+      if (!stopped) onBalance(parsePoolBalance(address, info, decimals));
+    }, { commitment: 'confirmed' });
+    timer = setInterval(refresh, POOL_RECONCILE_INTERVAL_MS);
+    await refresh();
+  };
+
+  start(0);
+
+  return () => {
+    stopped = true;
+    if (timer) clearInterval(timer);
+    if (retryTimer) clearTimeout(retryTimer);
+    if (subscriptionId !== null) {
+      connection.removeAccountChangeListener(subscriptionId).catch(() => {});
+    }
+  };
+};
@@ -0,0 +1,23 @@
+/**
+ * @jest-environment node
+ */
+import { ed25519 } from '@noble/curves/ed25519';
+import { PublicKey } from '@solana/web3.js';
+import { PrizeClaim, signPrizeClaim, verifyPrizeClaimSignature } from './prizeClaim';
+
+const privateKey = new Uint8Array(32).fill(7);
+const player = new PublicKey(ed25519.getPublicKey(privateKey)).toBase58();
+const signMessage = async (message: Uint8Array) => ed25519.sign(message, privateKey);
+
+const claim: PrizeClaim = { tournamentId: 'daily-100', player, amount: '8000000', reportHash: 'abc123' };
+
+describe('prize claims', () => {
+  it('verifies a claim signed by the winning wallet', async () => {
+    expect(verifyPrizeClaimSignature(await signPrizeClaim(claim, signMessage))).toBe(true);
+  });
+
+  it('rejects a claim whose amount was changed after signing', async () => {
+    const signed = await signPrizeClaim(claim, signMessage);
+    expect(verifyPrizeClaimSignature({ ...signed, claim: { ...claim, amount: '9000000' } })).toBe(false);
+  });
+});
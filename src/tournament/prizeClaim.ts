@@ -0,0 +1,55 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { PublicKey } from '@solana/web3.js';
+import { MessageSigner } from './scoreClaim';
+import { PayoutState } from './settlement';
+
+// Prize claims. A winner signs a claim for their payout from a settled
+// tournament, proving the request comes from the winning wallet.
+
+export interface PrizeClaim {
+  tournamentId: string;
+  player: string; // Base58 wallet address
+  amount: string; // Base units, as in the settlement report
+  reportHash: string; // The settlement report the prize comes from
+}
+
+export interface SignedPrizeClaim {
+  claim: PrizeClaim;
+  signature: string; // Base64 ed25519 signature over encodePrizeClaimMessage(claim)
+}
+
+// A player's prize from one settled tournament, as shown in the app
+export interface PrizeInfo {
+  tournamentId: string;
+  player: string;
+  amount: string; // Base units
+  decimals: number;
+  places: number[];
+  reportHash: string;
+  state: PayoutState;
+  transaction: string | null;
+}
+
+export const encodePrizeClaimMessage = (claim: PrizeClaim) => utf8ToBytes([
+  'Hedgy Jump prize claim',
+  `Tournament: ${claim.tournamentId}`,
+  `Player: ${claim.player}`,
+  `Amount: ${claim.amount}`,
+  `Settlement: ${claim.reportHash}`
+].join('\n'));
+
+export const signPrizeClaim = async (claim: PrizeClaim, signMessage: MessageSigner): Promise<SignedPrizeClaim> => {
+  const signature = await signMessage(encodePrizeClaimMessage(claim));
+  return { claim, signature: Buffer.from(signature).toString('base64') };
+};
+
+export const verifyPrizeClaimSignature = (signed: SignedPrizeClaim) => {
+  try {
+    const signature = Buffer.from(signed.signature, 'base64');
+    const publicKey = new PublicKey(signed.claim.player).toBytes();
+    return ed25519.verify(signature, encodePrizeClaimMessage(signed.claim), publicKey);
+  } catch (error) {
+    return false;
+  }
+};
@@ -0,0 +1,47 @@
+import {
+  DAILY_SCHEDULE,
+  formatCountdown,
+  getCurrentWindow,
+  getEpochAt,
+  getTournamentPhase,
+  parseScheduleConfig
+} from './schedule';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('tournament schedule', () => {
+  it('derives the epoch from UTC time since genesis', () => {
+    expect(getEpochAt(DAILY_SCHEDULE, Date.UTC(2025, 0, 1))).toBe(0);
+    expect(getEpochAt(DAILY_SCHEDULE, Date.UTC(2025, 0, 1, 23, 59))).toBe(0);
+    expect(getEpochAt(DAILY_SCHEDULE, Date.UTC(2025, 0, 3, 12))).toBe(2);
+  });
+
+  it('anchors each window to UTC midnight for the daily schedule', () => {
+    const window = getCurrentWindow(DAILY_SCHEDULE, Date.UTC(2025, 2, 14, 15, 30));
+    expect(window.startsAt).toBe(Date.UTC(2025, 2, 14));
+    expect(window.endsAt).toBe(Date.UTC(2025, 2, 15));
+    expect(window.settlesAt).toBe(Date.UTC(2025, 2, 15, 1));
+    expect(window.id).toBe(`daily-${window.epoch}`);
+  });
+
+  it('moves through upcoming, open, settling and closed', () => {
+    const window = { startsAt: 10 * HOUR, endsAt: 20 * HOUR, settlesAt: 21 * HOUR };
+    expect(getTournamentPhase(window, 9 * HOUR)).toBe('upcoming');
+    expect(getTournamentPhase(window, 10 * HOUR)).toBe('open');
+    expect(getTournamentPhase(window, 20 * HOUR)).toBe('settling');
+    expect(getTournamentPhase(window, 21 * HOUR)).toBe('closed');
+  });
+
+  it('reads custom schedules and rejects invalid ones', () => {
+    const config = parseScheduleConfig({ genesis: '2025-06-01T00:00:00Z', durationMinutes: '10', settlementMinutes: '1' });
+    expect(config.durationMs).toBe(10 * 60 * 1000);
+    expect(getEpochAt(config, Date.UTC(2025, 5, 1, 0, 25))).toBe(2);
+    expect(() => parseScheduleConfig({ durationMinutes: '0' })).toThrow();
+    expect(() => parseScheduleConfig({ genesis: 'not a date' })).toThrow();
+  });
+
+  it('formats countdowns', () => {
+    expect(formatCountdown(HOUR + 61 * 1000)).toBe('01:01:01');
+    expect(formatCountdown(-5)).toBe('00:00:00');
+  });
+});
@@ -0,0 +1,90 @@
+// Tournament schedule anchored to UTC. Tournaments run back to back in fixed
+// epochs counted from a genesis time, so every client and the service agree on
+// which tournament is running without keeping any clock of their own.
+
+export type TournamentPhase = 'upcoming' | 'open' | 'settling' | 'closed';
+
+export interface ScheduleConfig {
+  name: string; // Prefix for tournament ids
+  genesis: number; // UTC ms when epoch 0 starts
+  durationMs: number;
+  settlementMs: number; // How long after closing results stay provisional
+}
+
+export interface TournamentWindow {
+  id: string;
+  epoch: number;
+  startsAt: number;
+  endsAt: number;
+  settlesAt: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// One tournament per UTC day
+export const DAILY_SCHEDULE: ScheduleConfig = {
+  name: 'daily',
+  genesis: Date.UTC(2025, 0, 1),
+  durationMs: DAY_MS,
+  settlementMs: 60 * MINUTE_MS
+};
+
+export const getTournamentWindow = (config: ScheduleConfig, epoch: number): TournamentWindow => {
+  const startsAt = config.genesis + epoch * config.durationMs;
+  const endsAt = startsAt + config.durationMs;
+  return {
+    id: `${config.name}-${epoch}`,
+    epoch,
+    startsAt,
+    endsAt,
+    settlesAt: endsAt + config.settlementMs
+  };
+};
+
+// The epoch that is open at a given time (negative before genesis)
+export const getEpochAt = (config: ScheduleConfig, now: number) =>
+  Math.floor((now - config.genesis) / config.durationMs);
+
+export const getCurrentWindow = (config: ScheduleConfig, now: number = Date.now()) =>
+  getTournamentWindow(config, getEpochAt(config, now));
+
+export const getTournamentPhase = (
+  window: Pick<TournamentWindow, 'startsAt' | 'endsAt' | 'settlesAt'>,
+  now: number
+): TournamentPhase => {
+  if (now < window.startsAt) return 'upcoming';
+  if (now < window.endsAt) return 'open';
+  if (now < window.settlesAt) return 'settling';
+  return 'closed';
+};
+
+// Read a schedule from environment-style settings, falling back to the daily schedule
+export const parseScheduleConfig = (env: {
+  name?: string;
+  genesis?: string;
+  durationMinutes?: string;
+  settlementMinutes?: string;
+}): ScheduleConfig => {
+  const config: ScheduleConfig = {
+    name: env.name || DAILY_SCHEDULE.name,
+    genesis: env.genesis ? Date.parse(env.genesis) : DAILY_SCHEDULE.genesis,
+    durationMs: env.durationMinutes ? Number(env.durationMinutes) * MINUTE_MS : DAILY_SCHEDULE.durationMs,
+    settlementMs: env.settlementMinutes ? Number(env.settlementMinutes) * MINUTE_MS : DAILY_SCHEDULE.settlementMs
+  };
+
+  if (!Number.isFinite(config.genesis)) throw new Error(`Invalid schedule genesis "${env.genesis}"`);
+  if (!(config.durationMs > 0)) throw new Error(`Invalid tournament duration "${env.durationMinutes}"`);
+  if (!(config.settlementMs >= 0)) throw new Error(`Invalid settlement window "${env.settlementMinutes}"`);
+
+  return config;
+};
+
+// Format a duration in ms as "HH:MM:SS"
+export const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,58 @@
+/**
+ * @jest-environment node
+ */
+import { ed25519 } from '@noble/curves/ed25519';
+import { PublicKey } from '@solana/web3.js';
+import { InputLog, ReplayResult } from '../game/replay';
+import { ClaimVerifier, createScoreClaim, hashReplay, signScoreClaim } from './scoreClaim';
+
+const privateKey = new Uint8Array(32).fill(7);
+const player = new PublicKey(ed25519.getPublicKey(privateKey)).toBase58();
+const signMessage = async (message: Uint8Array) => ed25519.sign(message, privateKey);
+
+const log: InputLog = { version: 11, seed: 7, frames: [[0, 120]] };
+const replay: ReplayResult = { valid: true, score: 321, frames: 120, durationMs: 2004 };
+const now = 1_700_000_000_000;
+
+const signedClaim = (overrides: Partial<Parameters<typeof createScoreClaim>[0]> = {}) => signScoreClaim(
+  createScoreClaim({ tournamentId: 'daily-2025-01-01', player, score: 321, durationMs: 2004, log, timestamp: now, ...overrides }),
+  signMessage
+);
+
+const expected = { tournamentId: 'daily-2025-01-01', log, replay, now };
+
+describe('ClaimVerifier', () => {
+  it('accepts a signed claim that matches the replay', async () => {
+    const signed = await signedClaim();
+    expect(signed.claim.replayHash).toBe(hashReplay(log));
+    expect(new ClaimVerifier().verify(signed, expected)).toEqual({ valid: true });
+  });
+
+  it('rejects unsigned claims', async () => {
+    const signed = await signedClaim();
+    expect(new ClaimVerifier().verify({ ...signed, signature: '' }, expected).valid).toBe(false);
+    expect(new ClaimVerifier().verify(null, expected).valid).toBe(false);
+  });
+
+  it('rejects claims altered after signing', async () => {
+    const signed = await signedClaim();
+    const tampered = { ...signed, claim: { ...signed.claim, score: 9999 } };
+    expect(new ClaimVerifier().verify(tampered, expected).reason).toBe('Invalid signature');
+  });
+
+  it('rejects claims that do not match the replay', async () => {
+    const verifier = new ClaimVerifier();
+    expect(verifier.verify(await signedClaim({ score: 500 }), expected).valid).toBe(false);
+    expect(verifier.verify(await signedClaim({ tournamentId: 'daily-2024-12-31' }), expected).valid).toBe(false);
+    expect(verifier.verify(await signedClaim({ log: { ...log, seed: 8 } }), expected).valid).toBe(false);
+  });
+
+  it('rejects stale and replayed claims', async () => {
+    const verifier = new ClaimVerifier();
+    expect(verifier.verify(await signedClaim({ timestamp: now - 60 * 60 * 1000 }), expected).valid).toBe(false);
+
+    const signed = await signedClaim();
+    expect(verifier.verify(signed, expected).valid).toBe(true);
+    expect(verifier.verify(signed, expected).reason).toBe('Claim has already been submitted');
+  });
+});
@@ -0,0 +1,125 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { PublicKey } from '@solana/web3.js';
+import { InputLog, ReplayResult } from '../game/replay';
+
+// Wallet-signed score claims. A finished run is packaged as a claim that the
+// player signs with their wallet, proving the wallet owner produced the score.
+
+export const CLAIM_VERSION = 1;
+export const CLAIM_MAX_AGE_MS = 10 * 60 * 1000;
+export const CLAIM_CLOCK_SKEW_MS = 60 * 1000;
+
+export interface ScoreClaim {
+  version: number;
+  tournamentId: string;
+  player: string; // Base58 wallet address
+  score: number;
+  durationMs: number;
+  replayHash: string;
+  timestamp: number;
+}
+
+export interface SignedScoreClaim {
+  claim: ScoreClaim;
+  signature: string; // Base64 ed25519 signature over encodeClaimMessage(claim)
+}
+
+export interface ClaimVerification {
+  valid: boolean;
+  reason?: string;
+}
+
+// Matches the wallet adapter's signMessage
+export type MessageSigner = (message: Uint8Array) => Promise<Uint8Array>;
+
+// Hash of the input log, binding the claim to one specific recorded run
+export const hashReplay = (log: InputLog) => bytesToHex(sha256(utf8ToBytes(JSON.stringify(log))));
+
+export const createScoreClaim = (params: {
+  tournamentId: string;
+  player: string;
+  score: number;
+  durationMs: number;
+  log: InputLog;
+  timestamp?: number;
+}): ScoreClaim => ({
+  version: CLAIM_VERSION,
+  tournamentId: params.tournamentId,
+  player: params.player,
+  score: params.score,
+  durationMs: Math.round(params.durationMs),
+  replayHash: hashReplay(params.log),
+  timestamp: params.timestamp ?? Date.now()
+});
+
+// The exact bytes that get signed. Kept human readable because wallets show it to the player.
+export const encodeClaimMessage = (claim: ScoreClaim) => utf8ToBytes([
+  'Hedgy Jump score claim',
+  `Version: ${claim.version}`,
+  `Tournament: ${claim.tournamentId}`,
+  `Player: ${claim.player}`,
+  `Score: ${claim.score}`,
+  `Duration: ${claim.durationMs}ms`,
+  `Replay: ${claim.replayHash}`,
+  `Timestamp: ${claim.timestamp}`
+].join('\n'));
+
+export const signScoreClaim = async (claim: ScoreClaim, signMessage: MessageSigner): Promise<SignedScoreClaim> => {
+  const signature = await signMessage(encodeClaimMessage(claim));
+  return { claim, signature: Buffer.from(signature).toString('base64') };
+};
+
+// Check that the claim was signed by the wallet it names
+export const verifyClaimSignature = (signed: SignedScoreClaim) => {
+  try {
+    const signature = Buffer.from(signed.signature, 'base64');
+    const publicKey = new PublicKey(signed.claim.player).toBytes();
+    return ed25519.verify(signature, encodeClaimMessage(signed.claim), publicKey);
+  } catch (error) {
+    return false;
+  }
+};
+
+// Verifies claims before they can affect the standings. Remembers accepted
+// claims so the same signed run can't be submitted twice.
+export class ClaimVerifier {
+  private acceptedReplays = new Set<string>();
+
+  constructor(
+    private maxAgeMs = CLAIM_MAX_AGE_MS,
+    private clockSkewMs = CLAIM_CLOCK_SKEW_MS
+  ) {}
+
+  // Mark a replay as already used, e.g. when reloading stored scores
+  remember(replayHash: string) {
+    this.acceptedReplays.add(replayHash);
+  }
+
+  verify(
+    signed: SignedScoreClaim | null | undefined,
+    expected: { tournamentId: string; log: InputLog; replay: ReplayResult; now?: number }
+  ): ClaimVerification {
+    const reject = (reason: string): ClaimVerification => ({ valid: false, reason });
+
+    if (!signed || !signed.claim || !signed.signature) return reject('Claim is not signed');
+
+    const { claim } = signed;
+    const now = expected.now ?? Date.now();
+
+    if (claim.version !== CLAIM_VERSION) return reject(`Unsupported claim version ${claim.version}`);
+    if (!verifyClaimSignature(signed)) return reject('Invalid signature');
+    if (claim.tournamentId !== expected.tournamentId) return reject('Claim is for a different tournament');
+    if (!expected.replay.valid) return reject(expected.replay.reason || 'Replay did not verify');
+    if (claim.replayHash !== hashReplay(expected.log)) return reject('Replay hash does not match the submitted run');
+    if (claim.score !== expected.replay.score) return reject('Claimed score does not match the replay');
+    if (claim.durationMs !== Math.round(expected.replay.durationMs)) return reject('Claimed duration does not match the replay');
+    if (claim.timestamp > now + this.clockSkewMs) return reject('Claim is timestamped in the future');
+    if (now - claim.timestamp > this.maxAgeMs) return reject('Claim has expired');
+    if (this.acceptedReplays.has(claim.replayHash)) return reject('Claim has already been submitted');
+
+    this.acceptedReplays.add(claim.replayHash);
+    return { valid: true };
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ */
+import { Keypair } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token';
+import {
+  buildPayoutTransaction,
+  canAdvanceBuyback,
+  canAdvancePayout,
+  computeSettlement,
+  hashSettlement,
+  needsBuybackTransfer,
+  SettlementConfig
+} from './settlement';
+import { rankScores } from './leaderboard';
+import { LeaderboardEntry } from './types';
+
+const key = (fill: number) => Keypair.fromSeed(new Uint8Array(32).fill(fill)).publicKey;
+const poolWallet = key(2);
+const usdcMint = key(3);
+const buybackWallet = key(4);
+const players = [key(10), key(11), key(12), key(13)].map(player => player.toBase58());
+
+const makeConfig = (overrides: Partial<SettlementConfig> = {}): SettlementConfig => ({
+  cluster: 'devnet',
+  usdcMint,
+  poolWallet,
+  buybackWallet,
+  feeSplit: { prizePoolPercent: 80, buybackPercent: 20 },
+  prizeTiers: [100],
+  ...overrides
+});
+
+const standings = (...scores: number[]): LeaderboardEntry[] =>
+  rankScores(scores.map((score, index) => ({ player: players[index], score, submittedAt: index })));
+
+const settle = (totalEntries: number, entries: LeaderboardEntry[], config = makeConfig()) =>
+  computeSettlement({ tournamentId: 'daily-100', totalEntries: BigInt(totalEntries), decimals: 6, standings: entries, config, now: 0 });
+
+describe('settlement', () => {
+  it('gives the buyback share and the rest of the pool to the winner', () => {
+    const report = settle(10000000, standings(500, 300));
+    expect(report.buyback.amount).toBe('2000000');
+    expect(report.payouts).toEqual([{ player: players[0], score: 500, places: [1], amount: '8000000' }]);
+    expect(report.unallocated).toBe('0');
+  });
+
+  it('splits prize tiers and gives rounding dust to first place', () => {
+    const report = settle(1000001, standings(500, 300, 100), makeConfig({ prizeTiers: [50, 30, 20] }));
+    const amounts = report.payouts.map(payout => Number(payout.amount));
+    expect(amounts).toEqual([400001, 240000, 160000]);
+    expect(amounts.reduce((sum, amount) => sum + amount, 0) + Number(report.buyback.amount)).toBe(1000001);
+  });
+
+  it('lets tied players share the prizes of the places they span', () => {
+    const report = settle(1000000, standings(500, 500, 100), makeConfig({ prizeTiers: [60, 30, 10], feeSplit: { prizePoolPercent: 100, buybackPercent: 0 } }));
+    expect(report.payouts.map(payout => [payout.places, payout.amount])).toEqual([
+      [[1, 2], '450000'],
+      [[1, 2], '450000'],
+      [[3], '100000']
+    ]);
+  });
+
+  it('leaves prizes without a winner unallocated', () => {
+    const report = settle(1000000, standings(500), makeConfig({ prizeTiers: [70, 30] }));
+    expect(report.payouts).toHaveLength(1);
+    expect(report.unallocated).toBe('240000');
+  });
+
+  it('pays tied players by the rank the leaderboard shows them', () => {
+    const ranked = rankScores([
+      { player: players[0], score: 400, submittedAt: 1 },
+      { player: players[1], score: 500, submittedAt: 3 },
+      { player: players[2], score: 500, submittedAt: 2 },
+      { player: players[3], score: 100, submittedAt: 4 }
+    ]);
+    const report = settle(1000000, ranked, makeConfig({ prizeTiers: [50, 30, 20], feeSplit: { prizePoolPercent: 100, buybackPercent: 0 } }));
+
+    expect(ranked.map(entry => entry.rank)).toEqual([1, 1, 3, 4]);
+    expect(report.payouts.map(payout => [payout.player, payout.places, payout.amount])).toEqual([
+      [players[2], [1, 2], '400000'],
+      [players[1], [1, 2], '400000'],
+      [players[0], [3], '200000']
+    ]);
+    report.payouts.forEach(payout => {
+      expect(payout.places[0]).toBe(ranked.find(entry => entry.player === payout.player)!.rank);
+    });
+  });
+
+  it('hashes the report so later edits can be spotted', () => {
+    const { hash, status, ...content } = settle(1000000, standings(500));
+    expect(hashSettlement(content)).toBe(hash);
+    expect(hashSettlement({ ...content, payouts: [] })).not.toBe(hash);
+  });
+
+  it('starts every payout unclaimed', () => {
+    const report = settle(1000000, standings(500, 300), makeConfig({ prizeTiers: [70, 30] }));
+    expect(Object.values(report.status.payouts).map(status => status.state)).toEqual(['unclaimed', 'unclaimed']);
+    expect(report.status.buyback).toEqual({ state: 'unsent', transaction: null });
+  });
+
+  it('only moves payouts forward', () => {
+    expect(canAdvancePayout('unclaimed', 'claimed')).toBe(true);
+    expect(canAdvancePayout('unclaimed', 'sending')).toBe(true);
+    expect(canAdvancePayout('sending', 'paid')).toBe(true);
+    expect(canAdvancePayout('claimed', 'claimed')).toBe(false);
+    expect(canAdvancePayout('sending', 'unclaimed')).toBe(false);
+    expect(canAdvancePayout('paid', 'sending')).toBe(false);
+    expect(canAdvanceBuyback('unsent', 'sending')).toBe(true);
+    expect(canAdvanceBuyback('sending', 'unsent')).toBe(false);
+  });
+
+  it('builds a pool transfer that creates the recipient token account if needed', () => {
+    const report = settle(1000000, standings(500));
+    const transaction = buildPayoutTransaction(report, players[0], report.payouts[0].amount);
+
+    expect(transaction.feePayer!.equals(poolWallet)).toBe(true);
+    expect(transaction.instructions).toHaveLength(2);
+    expect(transaction.instructions[1].programId.equals(TOKEN_PROGRAM_ID)).toBe(true);
+  });
+
+  it('keeps the buyback share in the pool when there is no separate buyback wallet', () => {
+    expect(needsBuybackTransfer(settle(1000000, standings(500)))).toBe(true);
+    expect(needsBuybackTransfer(settle(1000000, standings(500), makeConfig({ buybackWallet: poolWallet })))).toBe(false);
+
+    const paid = settle(1000000, standings(500));
+    paid.status.buyback = { state: 'paid', transaction: 'signature' };
+    expect(needsBuybackTransfer(paid)).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync
+} from '@solana/spl-token';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { PublicKey, Transaction } from '@solana/web3.js';
+import { AppConfig } from '../config';
+import { LeaderboardEntry } from './types';
+
+// Prize settlement. Once a tournament closes, its entries are split into the
+// $HEDGY buyback share and prize tiers, paid from the pool wallet in USDC.
+// All amounts are integer base units so the split always adds up exactly.
+
+export const SETTLEMENT_VERSION = 2;
+
+export type SettlementConfig = Pick<AppConfig, 'cluster' | 'usdcMint' | 'poolWallet' | 'buybackWallet' | 'feeSplit' | 'prizeTiers'>;
+
+export interface Payout {
+  player: string;
+  score: number;
+  places: number[]; // Places whose prizes this player shares, more than one when tied
+  amount: string; // Base units
+}
+
+// unclaimed -> claimed (the winner signed a claim) -> sending -> paid
+export type PayoutState = 'unclaimed' | 'claimed' | 'sending' | 'paid';
+
+const PAYOUT_ORDER: PayoutState[] = ['unclaimed', 'claimed', 'sending', 'paid'];
+
+// A payout only ever moves forward, so a prize can't be claimed or sent twice
+export const canAdvancePayout = (from: PayoutState, to: PayoutState) =>
+  PAYOUT_ORDER.indexOf(to) > PAYOUT_ORDER.indexOf(from);
+
+export interface PayoutStatus {
+  state: PayoutState;
+  claimedAt: number | null;
+  claimSignature: string | null; // The winner's signature over the prize claim message
+  transaction: string | null; // Payout transfer, recorded before it is sent
+}
+
+// unsent -> sending -> paid, like a payout without the claim
+export type BuybackState = 'unsent' | 'sending' | 'paid';
+
+const BUYBACK_ORDER: BuybackState[] = ['unsent', 'sending', 'paid'];
+
+export const canAdvanceBuyback = (from: BuybackState, to: BuybackState) =>
+  BUYBACK_ORDER.indexOf(to) > BUYBACK_ORDER.indexOf(from);
+
+export interface BuybackStatus {
+  state: BuybackState;
+  transaction: string | null; // Buyback transfer, recorded before it is sent
+}
+
+export interface SettlementReport {
+  version: number;
+  tournamentId: string;
+  cluster: string;
+  usdcMint: string;
+  decimals: number;
+  poolWallet: string;
+  prizeTiers: number[];
+  buybackPercent: number;
+  totalEntries: string; // Base units collected from verified entries
+  buyback: { wallet: string; amount: string };
+  payouts: Payout[];
+  unallocated: string; // Prize money with nobody to win it, left in the pool
+  standings: LeaderboardEntry[];
+  createdAt: number;
+  hash: string; // sha256 of everything above, to spot edits to a stored report
+  // Progress of the payouts, the only part of a report that changes after it is created
+  status: {
+    buyback: BuybackStatus;
+    payouts: Record<string, PayoutStatus>;
+  };
+}
+
+const percentOf = (amount: bigint, percent: number) =>
+  amount * BigInt(Math.round(percent * 100)) / BigInt(10000);
+
+// Split an amount evenly, giving the leftover base units to the first shares
+const splitEvenly = (amount: bigint, count: number) => {
+  const share = amount / BigInt(count);
+  const remainder = Number(amount % BigInt(count));
+  return Array.from({ length: count }, (_, index) => share + (index < remainder ? BigInt(1) : BigInt(0)));
+};
+
+export const hashSettlement = (report: Omit<SettlementReport, 'hash' | 'status'>) =>
+  bytesToHex(sha256(utf8ToBytes(JSON.stringify(report))));
+
+export const computeSettlement = (params: {
+  tournamentId: string;
+  totalEntries: bigint;
+  decimals: number;
+  standings: LeaderboardEntry[];
+  config: SettlementConfig;
+  now?: number;
+}): SettlementReport => {
+  const { totalEntries, standings, config } = params;
+  const buyback = percentOf(totalEntries, config.feeSplit.buybackPercent);
+  const prizePool = totalEntries - buyback;
+
+  // Tier amounts, with rounding dust going to first place
+  const tiers = config.prizeTiers.map(percent => percentOf(prizePool, percent));
+  const dust = prizePool - tiers.reduce((sum, tier) => sum + tier, BigInt(0));
+  if (tiers.length > 0) tiers[0] += dust;
+
+  // Players sharing a rank share the prizes of all the places they span
+  const payouts: Payout[] = [];
+  let place = 0;
+  while (place < standings.length && place < tiers.length) {
+    const start = place;
+    let end = start;
+    while (end + 1 < standings.length && standings[end + 1].rank === standings[start].rank) end++;
+
+    const places = Array.from({ length: end - start + 1 }, (_, index) => start + index + 1);
+    const pot = tiers.slice(start, end + 1).reduce((sum, tier) => sum + tier, BigInt(0));
+    const shares = splitEvenly(pot, places.length);
+
+    standings.slice(start, end + 1).forEach((entry, index) => {
+      payouts.push({ player: entry.player, score: entry.score, places, amount: shares[index].toString() });
+    });
+    place = end + 1;
+  }
+
+  const paid = payouts.reduce((sum, payout) => sum + BigInt(payout.amount), BigInt(0));
+  const report = {
+    version: SETTLEMENT_VERSION,
+    tournamentId: params.tournamentId,
+    cluster: config.cluster,
+    usdcMint: config.usdcMint.toBase58(),
+    decimals: params.decimals,
+    poolWallet: config.poolWallet.toBase58(),
+    prizeTiers: config.prizeTiers,
+    buybackPercent: config.feeSplit.buybackPercent,
+    totalEntries: totalEntries.toString(),
+    buyback: { wallet: config.buybackWallet.toBase58(), amount: buyback.toString() },
+    payouts,
+    unallocated: (prizePool - paid).toString(),
+    standings,
+    createdAt: params.now ?? Date.now()
+  };
+
+  const payoutStatus: Record<string, PayoutStatus> = {};
+  payouts.forEach(payout => {
+    payoutStatus[payout.player] = { state: 'unclaimed', claimedAt: null, claimSignature: null, transaction: null };
+  });
+
+  return {
+    ...report,
+    hash: hashSettlement(report),
+    status: { buyback: { state: 'unsent', transaction: null }, payouts: payoutStatus }
+  };
+};
+
+// Unsigned USDC transfer from the pool wallet, creating the recipient's token account if needed.
+// The caller signs with the pool wallet, which also pays the fee.
+export const buildPayoutTransaction = (report: SettlementReport, recipient: string, amount: string) => {
+  const mint = new PublicKey(report.usdcMint);
+  const poolWallet = new PublicKey(report.poolWallet);
+  const owner = new PublicKey(recipient);
+  const source = getAssociatedTokenAddressSync(mint, poolWallet, true);
+  const destination = getAssociatedTokenAddressSync(mint, owner, true);
+
+  return new Transaction({ feePayer: poolWallet }).add(
+    createAssociatedTokenAccountIdempotentInstruction(poolWallet, destination, owner, mint),
+    createTransferCheckedInstruction(source, mint, destination, poolWallet, BigInt(amount), report.decimals)
+  );
+};
+
+// A buyback wallet that is the pool wallet itself already holds its share
+export const needsBuybackTransfer = (report: SettlementReport) =>
+  report.buyback.wallet !== report.poolWallet &&
+  BigInt(report.buyback.amount) > BigInt(0) &&
+  report.status.buyback.state !== 'paid';
+
+// Human readable summary for logs and reviewers
+export const formatSettlementReport = (report: SettlementReport) => {
+  const usdc = (amount: string) => (Number(amount) / 10 ** report.decimals).toFixed(report.decimals);
+  return [
+    `Settlement for ${report.tournamentId} on ${report.cluster} (report ${report.hash.slice(0, 16)})`,
+    `Entries: ${usdc(report.totalEntries)} USDC`,
+    `Buyback (${report.buybackPercent}%): ${usdc(report.buyback.amount)} USDC -> ${report.buyback.wallet}`,
+    ...report.payouts.map(payout =>
+      `Place ${payout.places.join('/')}: ${usdc(payout.amount)} USDC -> ${payout.player} ` +
+      `(score ${payout.score}, ${report.status.payouts[payout.player].state})`),
+    `Unallocated: ${usdc(report.unallocated)} USDC`
+  ].join('\n');
+};
@@ -0,0 +1,4 @@
+import { hashSeed } from '../game/random';
+
+// Every entrant of a tournament plays the course generated from this seed
+export const getTournamentSeed = (tournamentId: string) => hashSeed(tournamentId);
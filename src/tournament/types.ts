@@ -0,0 +1,51 @@
+import { InputLog } from '../game/replay';
+import { TournamentPhase } from './schedule';
+import { SignedScoreClaim } from './scoreClaim';
+
+// Shapes exchanged between the app and the tournament service
+
+export interface TournamentInfo {
+  id: string;
+  epoch: number;
+  seed: number;
+  startsAt: number; // UTC ms
+  endsAt: number; // UTC ms
+  settlesAt: number; // UTC ms
+  phase: TournamentPhase;
+  serverTime: number; // UTC ms when the response was built, to correct client clock drift
+  players: number;
+  prizePool: number; // USDC
+  highestScore: number;
+  leader: string | null;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  player: string;
+  score: number;
+  submittedAt: number;
+}
+
+export interface LeaderboardPage {
+  total: number;
+  limit: number;
+  offset: number;
+  entries: LeaderboardEntry[];
+  player: LeaderboardEntry | null; // The requesting player's entry, even when outside this page
+}
+
+export interface JoinRequest {
+  player: string;
+  signature: string; // The entry transfer, verified on-chain before the player is admitted
+}
+
+export interface ScoreSubmission {
+  signed: SignedScoreClaim;
+  log: InputLog;
+}
+
+export interface ScoreSubmissionResult {
+  accepted: boolean;
+  rank: number;
+  bestScore: number;
+}
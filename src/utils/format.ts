@@ -0,0 +1,5 @@
+// Format address for display (truncate middle)
+export const formatAddress = (address: string) => {
+  if (!address) return 'No leader yet';
+  return `${address.slice(0, 4)}...${address.slice(-4)}`;
+};
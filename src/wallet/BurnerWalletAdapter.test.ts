@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+import { ed25519 } from '@noble/curves/ed25519';
+import { Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import { BURNER_STORAGE_KEY, BurnerWalletAdapter, KeyStorage, loadBurnerKeypair } from './BurnerWalletAdapter';
+
+const memoryStorage = (): KeyStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    }
+  };
+};
+
+describe('burner wallet', () => {
+  it('creates a keypair once and reuses it', () => {
+    const storage = memoryStorage();
+    const first = loadBurnerKeypair(storage);
+    expect(storage.items.has(BURNER_STORAGE_KEY)).toBe(true);
+    expect(loadBurnerKeypair(storage).publicKey.equals(first.publicKey)).toBe(true);
+  });
+
+  it('replaces an unreadable stored key', () => {
+    const storage = memoryStorage();
+    storage.setItem(BURNER_STORAGE_KEY, 'not json');
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(loadBurnerKeypair(storage).publicKey).toBeDefined();
+    expect(storage.getItem(BURNER_STORAGE_KEY)).not.toBe('not json');
+  });
+
+  it('connects and signs messages and transactions with the stored key', async () => {
+    const adapter = new BurnerWalletAdapter(memoryStorage());
+    const onConnect = jest.fn();
+    adapter.on('connect', onConnect);
+    await adapter.connect();
+
+    const publicKey = adapter.publicKey!;
+    expect(onConnect).toHaveBeenCalledWith(publicKey);
+
+    const message = new TextEncoder().encode('hello');
+    expect(ed25519.verify(await adapter.signMessage(message), message, publicKey.toBytes())).toBe(true);
+
+    const transaction = new Transaction({ feePayer: publicKey, recentBlockhash: Keypair.generate().publicKey.toBase58() })
+      .add(SystemProgram.transfer({ fromPubkey: publicKey, toPubkey: Keypair.generate().publicKey, lamports: 1 }));
+    await adapter.signTransaction(transaction);
+    expect(transaction.verifySignatures()).toBe(true);
+  });
+
+  it('refuses to sign once disconnected', async () => {
+    const adapter = new BurnerWalletAdapter(memoryStorage());
+    await adapter.connect();
+    await adapter.disconnect();
+    await expect(adapter.signMessage(new Uint8Array([1]))).rejects.toThrow();
+  });
+});
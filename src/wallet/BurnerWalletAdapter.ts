@@ -0,0 +1,96 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import {
+  BaseMessageSignerWalletAdapter,
+  TransactionOrVersionedTransaction,
+  WalletName,
+  WalletNotConnectedError,
+  WalletReadyState,
+  isVersionedTransaction
+} from '@solana/wallet-adapter-base';
+import { Keypair, PublicKey, TransactionVersion } from '@solana/web3.js';
+
+// Development wallet backed by a keypair kept in localStorage, so paid flows can
+// be tested against a local validator without a browser extension. The key is
+// stored unencrypted: never enable this on mainnet.
+
+export const BurnerWalletName = 'Burner Wallet (dev)' as WalletName<'Burner Wallet (dev)'>;
+
+export const BURNER_STORAGE_KEY = 'hedgy-jump:burner-wallet';
+
+// A small flame on an orange background
+const BURNER_ICON = 'data:image/svg+xml;base64,' + btoa(
+  '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"><rect width="32" height="32" rx="6" fill="#f97316"/>' +
+  '<path d="M16 5c1 5 7 7 7 14a7 7 0 0 1-14 0c0-4 3-6 3-9 2 2 2 4 2 5 2-2 2-6 2-10z" fill="#fff"/></svg>'
+);
+
+export type KeyStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+// Load the stored burner keypair, creating and storing a new one on first use
+export const loadBurnerKeypair = (storage: KeyStorage) => {
+  const stored = storage.getItem(BURNER_STORAGE_KEY);
+  if (stored) {
+    try {
+      return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(stored)));
+    } catch (error) {
+      console.warn('Ignoring an unreadable burner wallet key');
+    }
+  }
+
+  const keypair = Keypair.generate();
+  storage.setItem(BURNER_STORAGE_KEY, JSON.stringify(Array.from(keypair.secretKey)));
+  return keypair;
+};
+
+export class BurnerWalletAdapter extends BaseMessageSignerWalletAdapter {
+  name = BurnerWalletName;
+  url = 'https://github.com/anza-xyz/wallet-adapter';
+  icon = BURNER_ICON;
+  readyState = WalletReadyState.Loadable;
+  supportedTransactionVersions: ReadonlySet<TransactionVersion> = new Set<TransactionVersion>(['legacy', 0]);
+
+  private keypair: Keypair | null = null;
+
+  // Defaults to localStorage
+  constructor(private storage?: KeyStorage) {
+    super();
+  }
+
+  get publicKey(): PublicKey | null {
+    return this.keypair ? this.keypair.publicKey : null;
+  }
+
+  get connecting() {
+    return false;
+  }
+
+  async connect() {
+    if (this.keypair) return;
+    this.keypair = loadBurnerKeypair(this.storage ?? window.localStorage);
+    this.emit('connect', this.keypair.publicKey);
+  }
+
+  async disconnect() {
+    if (!this.keypair) return;
+    this.keypair = null;
+    this.emit('disconnect');
+  }
+
+  async signTransaction<T extends TransactionOrVersionedTransaction<this['supportedTransactionVersions']>>(transaction: T): Promise<T> {
+    const keypair = this.requireKeypair();
+    if (isVersionedTransaction(transaction)) {
+      transaction.sign([keypair]);
+    } else {
+      transaction.partialSign(keypair);
+    }
+    return transaction;
+  }
+
+  async signMessage(message: Uint8Array) {
+    return ed25519.sign(message, this.requireKeypair().secretKey.slice(0, 32));
+  }
+
+  private requireKeypair() {
+    if (!this.keypair) throw new WalletNotConnectedError();
+    return this.keypair;
+  }
+}